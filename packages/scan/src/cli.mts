@@ -1,13 +1,22 @@
 import { spawn } from 'node:child_process';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { cancel, confirm, intro, isCancel, spinner } from '@clack/prompts';
+import {
+  cancel,
+  confirm,
+  intro,
+  isCancel,
+  log,
+  outro,
+  spinner,
+} from '@clack/prompts';
 import { bgMagenta, dim, red } from 'kleur';
 import mri from 'mri';
 import {
   type Browser,
   type BrowserContext,
   chromium,
+  type Page,
   devices,
   firefox,
   webkit,
@@ -106,16 +115,288 @@ const applyStealthScripts = async (context: BrowserContext) => {
   });
 };
 
+interface ComponentRenderStats {
+  count: number;
+  selfTime: number;
+}
+
+interface ReactScanCIWindow extends Window {
+  __REACT_SCAN_CI_REPORT__?: (
+    batch: Record<string, ComponentRenderStats>,
+  ) => Promise<void>;
+}
+
+type InteractionStep =
+  | { action: 'goto'; url: string }
+  | { action: 'click' | 'hover'; selector: string }
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'scroll'; x?: number; y: number }
+  | { action: 'wait'; ms?: number; selector?: string };
+
+type ThresholdMetric = 'renders' | 'selfTime';
+
+interface Threshold {
+  // null applies the limit to every component
+  component: string | null;
+  metric: ThresholdMetric;
+  limit: number;
+}
+
+interface ThresholdViolation {
+  component: string;
+  metric: ThresholdMetric;
+  limit: number;
+  actual: number;
+}
+
+const EXIT_CODE_THRESHOLD_EXCEEDED = 1;
+const EXIT_CODE_ERROR = 2;
+
+const DEFAULT_REPORT_PATH = 'react-scan-report.json';
+const DEFAULT_SETTLE_MS = 1000;
+
+const toArray = (value: unknown): Array<string> => {
+  if (value === undefined || value === null || value === false) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap((v) => String(v).split(','));
+};
+
+// accepts `Component=20` or a bare `20` that applies to every component
+const parseThresholds = (value: unknown, metric: ThresholdMetric) => {
+  const thresholds: Array<Threshold> = [];
+
+  for (const entry of toArray(value)) {
+    const separatorIndex = entry.lastIndexOf('=');
+    const component =
+      separatorIndex === -1 ? null : entry.slice(0, separatorIndex).trim();
+    const limit = Number(
+      separatorIndex === -1 ? entry : entry.slice(separatorIndex + 1),
+    );
+
+    if (component === '' || !Number.isFinite(limit) || limit < 0) {
+      throw new Error(
+        `Invalid threshold "${entry}", expected Component=<number> or <number>`,
+      );
+    }
+
+    thresholds.push({ component, metric, limit });
+  }
+
+  return thresholds;
+};
+
+const readInteractionFile = async (filePath: string) => {
+  const content = await fs.readFile(path.resolve(filePath), 'utf8');
+  const steps: unknown = JSON.parse(content);
+
+  if (!Array.isArray(steps)) {
+    throw new Error(`Interaction file ${filePath} must contain an array`);
+  }
+
+  for (const step of steps) {
+    switch (step?.action) {
+      case 'goto':
+      case 'click':
+      case 'hover':
+      case 'fill':
+      case 'press':
+      case 'scroll':
+      case 'wait':
+        break;
+      default:
+        throw new Error(
+          `Unknown interaction step ${JSON.stringify(step)} in ${filePath}`,
+        );
+    }
+  }
+
+  return steps as Array<InteractionStep>;
+};
+
+const runInteractionStep = async (page: Page, step: InteractionStep) => {
+  switch (step.action) {
+    case 'goto':
+      await page.goto(inferValidURL(step.url));
+      await page.waitForLoadState('load');
+      break;
+    case 'click':
+      await page.click(step.selector);
+      break;
+    case 'hover':
+      await page.hover(step.selector);
+      break;
+    case 'fill':
+      await page.fill(step.selector, step.value);
+      break;
+    case 'press':
+      if (step.selector) {
+        await page.press(step.selector, step.key);
+      } else {
+        await page.keyboard.press(step.key);
+      }
+      break;
+    case 'scroll':
+      await page.mouse.wheel(step.x ?? 0, step.y);
+      break;
+    case 'wait':
+      if (step.selector) {
+        await page.waitForSelector(step.selector);
+      } else {
+        await page.waitForTimeout(step.ms ?? DEFAULT_SETTLE_MS);
+      }
+      break;
+  }
+};
+
+const getThresholdViolations = (
+  components: Map<string, ComponentRenderStats>,
+  thresholds: Array<Threshold>,
+) => {
+  const violations: Array<ThresholdViolation> = [];
+
+  for (const [name, stats] of components) {
+    for (const threshold of thresholds) {
+      if (threshold.component !== null && threshold.component !== name) {
+        continue;
+      }
+      const actual =
+        threshold.metric === 'renders' ? stats.count : stats.selfTime;
+      if (actual > threshold.limit) {
+        violations.push({
+          component: name,
+          metric: threshold.metric,
+          limit: threshold.limit,
+          actual,
+        });
+      }
+    }
+  }
+
+  return violations;
+};
+
+const runCI = async (
+  context: BrowserContext,
+  args: mri.Argv,
+  urlString: string,
+) => {
+  const thresholds = [
+    ...parseThresholds(args['max-renders'], 'renders'),
+    ...parseThresholds(args['max-self-time'], 'selfTime'),
+  ];
+  const steps = args.script ? await readInteractionFile(args.script) : [];
+  const settleMs =
+    args.wait !== undefined ? Number(args.wait) : DEFAULT_SETTLE_MS;
+
+  const components = new Map<string, ComponentRenderStats>();
+
+  await context.exposeBinding(
+    '__REACT_SCAN_CI_REPORT__',
+    (_source, batch: Record<string, ComponentRenderStats>) => {
+      for (const [name, stats] of Object.entries(batch)) {
+        const existing = components.get(name);
+        if (existing) {
+          existing.count += stats.count;
+          existing.selfTime += stats.selfTime;
+        } else {
+          components.set(name, { ...stats });
+        }
+      }
+    },
+  );
+
+  // renders are batched per commit so a busy page doesn't flood the binding
+  await context.addInitScript(() => {
+    const ciWindow = window as ReactScanCIWindow;
+    let pending: Record<string, ComponentRenderStats> = {};
+
+    ciWindow.reactScan?.({
+      onRender(_fiber, renders) {
+        for (const render of renders) {
+          if (!render.componentName) continue;
+          pending[render.componentName] ??= { count: 0, selfTime: 0 };
+          pending[render.componentName].count += render.count;
+          pending[render.componentName].selfTime += render.time ?? 0;
+        }
+      },
+      onCommitFinish() {
+        if (!Object.keys(pending).length) return;
+        const batch = pending;
+        pending = {};
+        void ciWindow.__REACT_SCAN_CI_REPORT__?.(batch);
+      },
+    });
+  });
+
+  const page = await context.newPage();
+  const startTime = Date.now();
+
+  log.step(dim(`Scanning: ${truncateString(urlString, 50)}`));
+  await page.goto(urlString);
+  await page.waitForLoadState('load');
+
+  for (const step of steps) {
+    log.step(dim(`Running: ${JSON.stringify(step)}`));
+    await runInteractionStep(page, step);
+  }
+
+  // let the last interaction commit before reading the results
+  await page.waitForTimeout(settleMs);
+
+  const sortedComponents = Array.from(components, ([name, stats]) => ({
+    name,
+    ...stats,
+  })).sort((a, b) => b.count - a.count || b.selfTime - a.selfTime);
+  const violations = getThresholdViolations(components, thresholds);
+
+  const report = {
+    url: urlString,
+    timestamp: startTime,
+    duration: Date.now() - startTime,
+    totalRenders: sortedComponents.reduce((sum, c) => sum + c.count, 0),
+    components: sortedComponents,
+    thresholds,
+    violations,
+  };
+
+  const reportPath = path.resolve(args.output ?? DEFAULT_REPORT_PATH);
+  await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+
+  log.info(
+    `${report.totalRenders} renders across ${sortedComponents.length} components`,
+  );
+  log.info(dim(`Report written to ${reportPath}`));
+
+  if (violations.length) {
+    for (const violation of violations) {
+      const unit = violation.metric === 'renders' ? ' renders' : 'ms self time';
+      log.error(
+        red(
+          `${violation.component}: ${Number(violation.actual.toFixed(2))}${unit} (max ${violation.limit})`,
+        ),
+      );
+    }
+    return EXIT_CODE_THRESHOLD_EXCEEDED;
+  }
+
+  return 0;
+};
+
 const init = async () => {
   intro(`${bgMagenta('[·]')} React Scan`);
-  const args = mri(process.argv.slice(2));
+  const args = mri(process.argv.slice(2), {
+    boolean: ['ci', 'headless'],
+    string: ['script', 'output', 'max-renders', 'max-self-time'],
+  });
+  const isCI = args.ci || args.headless;
   let browser: Browser | undefined;
 
   const device = devices[args.device];
   const { browserType, channel } = await getBrowserDetails(args.browser);
 
   const contextOptions = {
-    headless: false,
+    headless: isCI,
     channel,
     ...device,
     acceptDownloads: true,
@@ -137,7 +418,7 @@ const init = async () => {
 
   try {
     browser = await browserType.launch({
-      headless: false,
+      headless: isCI,
       channel,
     });
   } catch {
@@ -146,8 +427,16 @@ const init = async () => {
 
   if (!browser) {
     try {
-      browser = await browserType.launch({ headless: false });
+      browser = await browserType.launch({ headless: isCI });
     } catch {
+      // there is nobody to answer the install prompt in CI
+      if (isCI) {
+        cancel(
+          'No browser could be launched. Please run `npx playwright install` to install browser drivers.',
+        );
+        process.exit(EXIT_CODE_ERROR);
+      }
+
       const installPromise = new Promise<void>((resolve, reject) => {
         const runInstall = () => {
           confirm({
@@ -235,12 +524,24 @@ const init = async () => {
     content: `window.hideIntro = true;${scriptContent}\n//# sourceURL=react-scan.js`,
   });
 
-  const page = await context.newPage();
-
   const inputUrl = args._[0] || 'about:blank';
 
   const urlString = inferValidURL(inputUrl);
 
+  if (isCI) {
+    let exitCode = EXIT_CODE_ERROR;
+    try {
+      exitCode = await runCI(context, args, urlString);
+      if (!exitCode) outro('No render thresholds exceeded');
+    } catch (error) {
+      cancel(error instanceof Error ? error.message : String(error));
+    }
+    await browser.close();
+    process.exit(exitCode);
+  }
+
+  const page = await context.newPage();
+
   await page.goto(urlString);
 
   await page.waitForLoadState('load');
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { installRDTHook } from 'bippy';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createInstrumentation } from '~core/instrumentation';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+// breakpoints have to track changes on their own, nothing else asks for them here
+createInstrumentation('react-scan-breakpoints-test', {
+  onCommitStart() {},
+  isValidFiber: () => true,
+  onRender() {},
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: false,
+});
+
+describe('render breakpoints', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pauses when a matching component renders with the changed prop', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+    // loaded after the instrumentation, the other way around is an import cycle
+    const { addBreakpoint, clearBreakpoints } = await import(
+      '~core/breakpoints'
+    );
+
+    // logged right before the debugger statement, which is a no-op without devtools
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    let setCount: (count: number) => void = () => {};
+    const Label = ({ count }: { count: number }) =>
+      createElement('span', null, count);
+    const Counter = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(Label, { count });
+    };
+
+    addBreakpoint('Label', {
+      kind: 'change',
+      changeType: 'props',
+      name: 'count',
+      label: 'count',
+    });
+    addBreakpoint('Counter', { kind: 'self-time', minSelfTime: 1000 });
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Counter)));
+    // nothing changed on mount
+    expect(info).not.toHaveBeenCalled();
+
+    flushSync(() => setCount(1));
+    root.unmount();
+    clearBreakpoints();
+
+    expect(info).toHaveBeenCalledOnce();
+    expect(info.mock.calls[0][0]).toBe(
+      '[React Scan] Breakpoint hit: Label prop `count` changed',
+    );
+    expect(info.mock.calls[0][1]).toMatchObject({
+      changes: [{ name: 'count', value: 1 }],
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { signal } from '@preact/signals';
+import type { Fiber } from 'bippy';
+import { readLocalStorage, saveLocalStorage } from '~web/utils/helpers';
+import { RenderPhase } from '~web/utils/outline';
+import { getChangeTypeName } from './budgets';
+import type { Change } from './index';
+import type { Render } from './instrumentation';
+
+export type ChangeTypeName = ReturnType<typeof getChangeTypeName>;
+
+export type BreakpointCondition =
+  | { kind: 'render' }
+  | {
+      kind: 'change';
+      changeType: ChangeTypeName;
+      // prop and context names, or the hook index for state
+      name: string;
+      // what the inspector shows for the name, e.g. the state variable
+      label: string;
+    }
+  | { kind: 'self-time'; minSelfTime: number };
+
+export interface RenderBreakpoint {
+  id: string;
+  componentName: string;
+  condition: BreakpointCondition;
+  enabled: boolean;
+}
+
+const BREAKPOINTS_STORAGE_KEY = 'react-scan-breakpoints';
+
+export const signalBreakpoints = signal<Array<RenderBreakpoint>>(
+  readLocalStorage<Array<RenderBreakpoint>>(BREAKPOINTS_STORAGE_KEY) ?? [],
+);
+
+// looked up for every rendered fiber, keep it out of the signal graph
+let enabledBreakpoints = new Map<string, Array<RenderBreakpoint>>();
+
+const indexBreakpoints = (breakpoints: Array<RenderBreakpoint>) => {
+  enabledBreakpoints = new Map();
+  for (const breakpoint of breakpoints) {
+    if (!breakpoint.enabled) continue;
+    const list = enabledBreakpoints.get(breakpoint.componentName);
+    if (list) {
+      list.push(breakpoint);
+    } else {
+      enabledBreakpoints.set(breakpoint.componentName, [breakpoint]);
+    }
+  }
+};
+
+indexBreakpoints(signalBreakpoints.peek());
+
+const setBreakpoints = (breakpoints: Array<RenderBreakpoint>) => {
+  signalBreakpoints.value = breakpoints;
+  indexBreakpoints(breakpoints);
+  saveLocalStorage(BREAKPOINTS_STORAGE_KEY, breakpoints);
+};
+
+const isSameCondition = (a: BreakpointCondition, b: BreakpointCondition) => {
+  switch (a.kind) {
+    case 'render':
+      return b.kind === 'render';
+    case 'change':
+      return (
+        b.kind === 'change' &&
+        a.changeType === b.changeType &&
+        a.name === b.name
+      );
+    case 'self-time':
+      return b.kind === 'self-time' && a.minSelfTime === b.minSelfTime;
+  }
+};
+
+export const addBreakpoint = (
+  componentName: string,
+  condition: BreakpointCondition,
+) => {
+  const breakpoints = signalBreakpoints.peek();
+  const existing = breakpoints.find(
+    (breakpoint) =>
+      breakpoint.componentName === componentName &&
+      isSameCondition(breakpoint.condition, condition),
+  );
+  if (existing) {
+    if (!existing.enabled) toggleBreakpoint(existing.id);
+    return;
+  }
+
+  setBreakpoints([
+    ...breakpoints,
+    {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      componentName,
+      condition,
+      enabled: true,
+    },
+  ]);
+};
+
+export const removeBreakpoint = (id: string) => {
+  setBreakpoints(
+    signalBreakpoints.peek().filter((breakpoint) => breakpoint.id !== id),
+  );
+};
+
+export const toggleBreakpoint = (id: string) => {
+  setBreakpoints(
+    signalBreakpoints
+      .peek()
+      .map((breakpoint) =>
+        breakpoint.id === id
+          ? { ...breakpoint, enabled: !breakpoint.enabled }
+          : breakpoint,
+      ),
+  );
+};
+
+export const clearBreakpoints = () => {
+  setBreakpoints([]);
+};
+
+/**
+ * The enabled breakpoints of the component, null when there are none so the
+ * caller can skip change tracking
+ */
+export const getBreakpoints = (componentName: string | null) => {
+  if (!componentName) return null;
+  return enabledBreakpoints.get(componentName) ?? null;
+};
+
+export const describeBreakpointCondition = (condition: BreakpointCondition) => {
+  switch (condition.kind) {
+    case 'render':
+      return 'renders';
+    case 'change':
+      return `${condition.changeType === 'props' ? 'prop' : condition.changeType} \`${condition.label}\` changed`;
+    case 'self-time':
+      return `selfTime > ${condition.minSelfTime}ms`;
+  }
+};
+
+const isConditionMet = (
+  condition: BreakpointCondition,
+  render: Render,
+  changes: Array<Change>,
+) => {
+  switch (condition.kind) {
+    case 'render':
+      return true;
+    case 'change':
+      // mounts list every prop as changed from undefined
+      if (render.phase === RenderPhase.Mount) return false;
+      return changes.some(
+        (change) =>
+          getChangeTypeName(change) === condition.changeType &&
+          String(change.name) === condition.name,
+      );
+    case 'self-time':
+      return render.time !== null && render.time > condition.minSelfTime;
+  }
+};
+
+/**
+ * Pauses in the debugger when a breakpoint of the rendered component is hit
+ */
+export const checkBreakpoints = (
+  fiber: Fiber,
+  breakpoints: Array<RenderBreakpoint>,
+  render: Render,
+) => {
+  const { changes } = render;
+  const breakpoint = breakpoints.find(({ condition }) =>
+    isConditionMet(condition, render, changes),
+  );
+  if (!breakpoint) return;
+
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.info(
+    `[React Scan] Breakpoint hit: ${breakpoint.componentName} ${describeBreakpointCondition(breakpoint.condition)}`,
+    { fiber, changes, render },
+  );
+  // `fiber`, `changes` and `render` are in scope, step out to let the commit finish
+  // biome-ignore lint/suspicious/noDebugger: pausing is what a breakpoint is for
+  debugger;
+};
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ReactScanInternals } from '~core/index';
+import { trackRenders } from '~core/testing';
+
+describe('render budgets', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('counts the re-renders of every instance against one budget', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    const onBudgetViolation = vi.fn();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const options = ReactScanInternals.options.value;
+    ReactScanInternals.options.value = {
+      ...options,
+      budgets: { Row: { maxRendersPerCommit: 2 } },
+      onBudgetViolation,
+    };
+
+    let setSelected: (selected: number) => void = () => {};
+    const Row = ({ selected }: { selected: boolean }) =>
+      createElement('li', null, String(selected));
+    const List = () => {
+      const [selected, _setSelected] = useState(0);
+      setSelected = _setSelected;
+      return createElement(
+        'ul',
+        null,
+        [0, 1, 2].map((id) =>
+          createElement(Row, { key: id, selected: id === selected }),
+        ),
+      );
+    };
+
+    // the instrumentation only looks at fibers an instance is interested in
+    const tracker = trackRenders();
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(List)));
+    // mounting doesn't count against the budget
+    expect(onBudgetViolation).not.toHaveBeenCalled();
+
+    flushSync(() => setSelected(1));
+    tracker.stop();
+    root.unmount();
+    ReactScanInternals.options.value = options;
+
+    expect(onBudgetViolation).toHaveBeenCalledOnce();
+    expect(onBudgetViolation.mock.calls[0][0]).toMatchObject({
+      componentName: 'Row',
+      exceeded: ['maxRendersPerCommit'],
+      rendersInCommit: 3,
+      // the last row re-rendered with the same props
+      changes: [],
+    });
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
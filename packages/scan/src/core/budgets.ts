@@ -0,0 +1,111 @@
+import type { Fiber } from 'bippy';
+import { type Change, ReactScanInternals } from './index';
+import { ChangeReason } from './instrumentation';
+
+export interface RenderBudget {
+  // how many times the component may re-render in a single commit, counted
+  // across all of its instances since a fiber renders at most once per commit
+  maxRendersPerCommit?: number;
+  // milliseconds spent rendering the component itself, excluding children
+  maxSelfTime?: number;
+}
+
+export interface RenderBudgetViolation {
+  fiber: Fiber;
+  componentName: string;
+  budget: RenderBudget;
+  exceeded: Array<keyof RenderBudget>;
+  rendersInCommit: number;
+  selfTime: number;
+  changes: Array<Change>;
+}
+
+// keyed by component name, all instances share a budget
+const commitRenderCounts = new Map<string, number>();
+
+export const getRenderBudget = (componentName: string | null) => {
+  if (!componentName) return null;
+  return ReactScanInternals.options.value.budgets?.[componentName] ?? null;
+};
+
+export const resetCommitRenderCounts = () => {
+  commitRenderCounts.clear();
+};
+
+export const checkRenderBudget = (
+  fiber: Fiber,
+  componentName: string,
+  budget: RenderBudget,
+  selfTime: number,
+  changes: Array<Change>,
+): RenderBudgetViolation | null => {
+  const rendersInCommit = (commitRenderCounts.get(componentName) ?? 0) + 1;
+  commitRenderCounts.set(componentName, rendersInCommit);
+
+  const exceeded: Array<keyof RenderBudget> = [];
+  if (
+    budget.maxRendersPerCommit !== undefined &&
+    rendersInCommit > budget.maxRendersPerCommit
+  ) {
+    exceeded.push('maxRendersPerCommit');
+  }
+  if (budget.maxSelfTime !== undefined && selfTime > budget.maxSelfTime) {
+    exceeded.push('maxSelfTime');
+  }
+
+  if (!exceeded.length) return null;
+
+  return {
+    fiber,
+    componentName,
+    budget,
+    exceeded,
+    rendersInCommit,
+    selfTime,
+    changes,
+  };
+};
+
+export const getChangeTypeName = (change: Change) => {
+  switch (change.type) {
+    case ChangeReason.Props:
+      return 'props';
+    case ChangeReason.Context:
+      return 'context';
+    default:
+      return 'state';
+  }
+};
+
+export const reportRenderBudgetViolation = (
+  violation: RenderBudgetViolation,
+) => {
+  const { componentName, budget, exceeded, rendersInCommit, selfTime } =
+    violation;
+
+  const reasons: Array<string> = [];
+  if (exceeded.includes('maxRendersPerCommit')) {
+    reasons.push(
+      `- rendered ${rendersInCommit} times in one commit (max ${budget.maxRendersPerCommit})`,
+    );
+  }
+  if (exceeded.includes('maxSelfTime')) {
+    reasons.push(
+      `- took ${selfTime.toFixed(2)}ms to render (max ${budget.maxSelfTime}ms)`,
+    );
+  }
+
+  const changes = violation.changes.map((change) => ({
+    type: getChangeTypeName(change),
+    name: change.name,
+    value: change.value,
+  }));
+
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.warn(
+    `[React Scan] ${componentName} exceeded its render budget:\n${reasons.join('\n')}`,
+    changes.length ? changes : 'no props, state or context changed',
+  );
+
+  ReactScanInternals.options.value.onBudgetViolation?.(violation);
+};
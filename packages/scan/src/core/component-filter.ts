@@ -0,0 +1,131 @@
+import { getDisplayName, getType } from 'bippy';
+import type { ComponentType } from 'preact';
+import type { ComponentType as ReactComponentType } from 'react';
+import { type Options, ReactScanInternals } from './index';
+
+/**
+ * A component reference (memo and forwardRef are unwrapped), an exact display name, or a pattern tested against the display name
+ */
+export type ComponentMatcher =
+  | string
+  | RegExp
+  // biome-ignore lint/suspicious/noExplicitAny: components with any props
+  | ReactComponentType<any>;
+
+// matching runs for every rendered fiber, so results are cached per component type
+let matchCache = new WeakMap<object, boolean>();
+
+export const isComponentMatcher = (value: unknown): value is ComponentMatcher =>
+  typeof value === 'string' ||
+  value instanceof RegExp ||
+  typeof value === 'function' ||
+  // memo and forwardRef components are objects
+  (typeof value === 'object' && value !== null && '$$typeof' in value);
+
+const matches = (
+  matcher: ComponentMatcher,
+  type: unknown,
+  displayName: string | null,
+) => {
+  if (typeof matcher === 'string') {
+    return displayName === matcher;
+  }
+  if (matcher instanceof RegExp) {
+    return displayName !== null && matcher.test(displayName);
+  }
+  return getType(matcher) === type;
+};
+
+const matchesAny = (
+  matchers: Array<ComponentMatcher>,
+  type: unknown,
+  displayName: string | null,
+) => {
+  for (const matcher of matchers) {
+    if (matches(matcher, type, displayName)) return true;
+  }
+  return false;
+};
+
+export const updateComponentFilter = (options: Options) => {
+  matchCache = new WeakMap();
+
+  const componentAllowList = new WeakMap<ComponentType<unknown>, Options>();
+  let hasComponentReferences = false;
+  for (const matcher of options.include ?? []) {
+    if (typeof matcher === 'string' || matcher instanceof RegExp) continue;
+    componentAllowList.set(
+      (getType(matcher) ?? matcher) as ComponentType<unknown>,
+      options,
+    );
+    hasComponentReferences = true;
+  }
+  ReactScanInternals.componentAllowList = hasComponentReferences
+    ? componentAllowList
+    : null;
+};
+
+/**
+ * Whether renders of a component type should show up in outlines, logs, `onRender` and the toolbar counts
+ */
+export const isComponentScanned = (type: unknown) => {
+  const { include, exclude } = ReactScanInternals.options.value;
+  if (!include?.length && !exclude?.length) return true;
+  if (!type || (typeof type !== 'object' && typeof type !== 'function')) {
+    return true;
+  }
+
+  const cached = matchCache.get(type);
+  if (cached !== undefined) return cached;
+
+  const displayName = getDisplayName(type);
+  let isScanned = true;
+  // exclude wins when a component matches both lists
+  if (exclude?.length && matchesAny(exclude, type, displayName)) {
+    isScanned = false;
+  } else if (include?.length) {
+    isScanned =
+      ReactScanInternals.componentAllowList?.has(
+        type as ComponentType<unknown>,
+      ) || matchesAny(include, type, displayName);
+  }
+
+  matchCache.set(type, isScanned);
+  return isScanned;
+};
+
+const REGEX_SOURCE = /^\/(.+)\/([dgimsuy]*)$/;
+
+/**
+ * Parses a display name, or a `/pattern/flags` string into a regex
+ */
+export const parseComponentMatcher = (value: string): ComponentMatcher => {
+  const match = REGEX_SOURCE.exec(value);
+  if (!match) return value;
+  try {
+    return new RegExp(match[1], match[2]);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Filters are persisted as display names and `/pattern/flags` strings,
+ * component references can't be serialized so those lists are not persisted at all
+ */
+export const serializeComponentMatchers = (
+  matchers: Array<ComponentMatcher> | undefined,
+): Array<string> | undefined => {
+  if (!matchers) return undefined;
+  const serialized: Array<string> = [];
+  for (const matcher of matchers) {
+    if (typeof matcher === 'string') {
+      serialized.push(matcher);
+    } else if (matcher instanceof RegExp) {
+      serialized.push(String(matcher));
+    } else {
+      return undefined;
+    }
+  }
+  return serialized;
+};
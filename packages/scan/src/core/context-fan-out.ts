@@ -0,0 +1,217 @@
+import {
+  type ContextDependency,
+  type Fiber,
+  getDisplayName,
+  isCompositeFiber,
+} from 'bippy';
+import { getPropOwner } from './unstable-props';
+import { isEqual } from './utils';
+
+// React internal tag not exported by bippy
+const ContextProviderTag = 10;
+
+const MAX_VALUE_CHANGES = 50;
+
+export interface ContextValueChange {
+  timestamp: number;
+  // consumers that re-rendered because of this change
+  consumers: number;
+  totalTime: number;
+  // the new value was a different object with the same contents
+  isFreshValue: boolean;
+}
+
+export interface ProviderFanOut {
+  contextName: string;
+  // the latest value changes, oldest first
+  changes: Array<ContextValueChange>;
+  freshValueChanges: number;
+}
+
+// keyed by either the current or the alternate provider fiber
+const fanOutByProvider = new WeakMap<Fiber, ProviderFanOut>();
+const commitValueChanges = new Map<Fiber, ContextValueChange>();
+const warnedContexts = new Set<unknown>();
+
+export const resetCommitContextChanges = () => {
+  commitValueChanges.clear();
+};
+
+interface ProviderType {
+  _context?: unknown;
+}
+
+// before react 19 the provider type wraps the context, since then it's the context itself
+const getProviderContext = (fiber: Fiber) =>
+  (fiber.type as ProviderType | null)?._context ?? fiber.type;
+
+const getContextName = (context: unknown) =>
+  (context as { displayName?: string } | null)?.displayName ?? 'UnnamedContext';
+
+const findProvider = (fiber: Fiber, context: unknown) => {
+  let current = fiber.return;
+  while (current) {
+    if (
+      current.tag === ContextProviderTag &&
+      getProviderContext(current) === context
+    ) {
+      return current;
+    }
+    current = current.return;
+  }
+  return null;
+};
+
+const getFanOut = (provider: Fiber) =>
+  fanOutByProvider.get(provider) ??
+  (provider.alternate ? fanOutByProvider.get(provider.alternate) : undefined);
+
+const isShallowEqual = (prevValue: unknown, nextValue: unknown) => {
+  if (
+    !prevValue ||
+    !nextValue ||
+    typeof prevValue !== 'object' ||
+    typeof nextValue !== 'object'
+  ) {
+    return false;
+  }
+  const prevKeys = Object.keys(prevValue);
+  const nextKeys = Object.keys(nextValue);
+  if (prevKeys.length !== nextKeys.length) return false;
+  for (const key of nextKeys) {
+    if (
+      !isEqual(
+        (prevValue as Record<string, unknown>)[key],
+        (nextValue as Record<string, unknown>)[key],
+      )
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const warnFreshValue = (provider: Fiber, context: unknown) => {
+  if (warnedContexts.has(context)) return;
+  warnedContexts.add(context);
+
+  const owner = getPropOwner(provider);
+  const ownerName = owner ? getDisplayName(owner.type) : null;
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.warn(
+    `[React Scan] ${getContextName(context)}.Provider${ownerName ? ` in ${ownerName}` : ''} gets a new value object with the same contents, which re-renders every consumer. Wrap the value in useMemo`,
+  );
+};
+
+const getValueChange = (
+  provider: Fiber,
+  context: unknown,
+  prevValue: unknown,
+  nextValue: unknown,
+) => {
+  const existing =
+    commitValueChanges.get(provider) ??
+    (provider.alternate ? commitValueChanges.get(provider.alternate) : null);
+  if (existing) return existing;
+
+  let fanOut = getFanOut(provider);
+  if (!fanOut) {
+    fanOut = {
+      contextName: getContextName(context),
+      changes: [],
+      freshValueChanges: 0,
+    };
+    fanOutByProvider.set(provider, fanOut);
+  }
+
+  const change: ContextValueChange = {
+    timestamp: performance.now(),
+    consumers: 0,
+    totalTime: 0,
+    isFreshValue: isShallowEqual(prevValue, nextValue),
+  };
+  if (fanOut.changes.length >= MAX_VALUE_CHANGES) {
+    fanOut.changes.shift();
+  }
+  fanOut.changes.push(change);
+
+  if (change.isFreshValue) {
+    fanOut.freshValueChanges++;
+    warnFreshValue(provider, context);
+  }
+
+  commitValueChanges.set(provider, change);
+  return change;
+};
+
+/**
+ * Attributes a re-render to the providers of the contexts whose value changed
+ * since the component last rendered
+ */
+export const recordContextConsumerRender = (fiber: Fiber, selfTime: number) => {
+  if (!fiber.alternate) return;
+
+  let contextItem: ContextDependency<unknown> | null | undefined =
+    fiber.dependencies?.firstContext;
+  while (contextItem) {
+    let prevItem: ContextDependency<unknown> | null | undefined =
+      fiber.alternate.dependencies?.firstContext;
+    while (prevItem && prevItem.context !== contextItem.context) {
+      prevItem = prevItem === prevItem.next ? null : prevItem.next;
+    }
+
+    if (
+      prevItem &&
+      !isEqual(prevItem.memoizedValue, contextItem.memoizedValue)
+    ) {
+      const provider = findProvider(fiber, contextItem.context);
+      if (provider) {
+        const change = getValueChange(
+          provider,
+          contextItem.context,
+          prevItem.memoizedValue,
+          contextItem.memoizedValue,
+        );
+        change.consumers++;
+        change.totalTime += selfTime;
+      }
+    }
+
+    if (contextItem === contextItem.next) break;
+    contextItem = contextItem.next;
+  }
+};
+
+/**
+ * Providers rendered by a component itself, not by its child components
+ */
+export const getOwnedProviders = (fiber: Fiber) => {
+  const providers: Array<Fiber> = [];
+  const stack: Array<Fiber> = [];
+  if (fiber.child) stack.push(fiber.child);
+
+  while (stack.length) {
+    const current = stack.pop() as Fiber;
+    if (current.sibling) stack.push(current.sibling);
+    if (current.tag === ContextProviderTag) providers.push(current);
+    if (!isCompositeFiber(current) && current.child) {
+      stack.push(current.child);
+    }
+  }
+
+  return providers;
+};
+
+export const getProviderFanOut = (fiber: Fiber): Array<ProviderFanOut> => {
+  const result: Array<ProviderFanOut> = [];
+  for (const provider of getOwnedProviders(fiber)) {
+    result.push(
+      getFanOut(provider) ?? {
+        contextName: getContextName(getProviderContext(provider)),
+        changes: [],
+        freshValueChanges: 0,
+      },
+    );
+  }
+  return result;
+};
@@ -0,0 +1,139 @@
+import type { Fiber } from 'bippy';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getStoreHookValue,
+  getStoreSubscription,
+  instrumentJotaiStore,
+  instrumentReduxStore,
+  recordStoreRender,
+  startStoreCommit,
+} from '~core/external-stores';
+
+const FunctionComponentTag = 0;
+
+const createStoreFiber = (prevState: unknown, nextState: unknown) => {
+  const queue = { value: nextState, getSnapshot: () => nextState };
+  const alternate = {
+    tag: FunctionComponentTag,
+    memoizedState: { memoizedState: prevState, queue, next: null },
+  };
+  return {
+    tag: FunctionComponentTag,
+    alternate,
+    memoizedState: { memoizedState: nextState, queue, next: null },
+  } as unknown as Fiber;
+};
+
+const createReduxStore = () => {
+  let state = { items: 0 };
+  return {
+    getState: () => state,
+    dispatch: (action: { type: string }) => {
+      if (action.type === 'cart/addItem') {
+        state = { items: state.items + 1 };
+      }
+      return action;
+    },
+  };
+};
+
+describe('external stores', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('attributes a selector change to the redux action', () => {
+    const store = instrumentReduxStore(createReduxStore(), 'cart');
+    store.dispatch({ type: 'cart/addItem' });
+    // an action that doesn't change the state can't cause a render
+    store.dispatch({ type: 'cart/noop' });
+
+    startStoreCommit();
+    const fiber = createStoreFiber(0, 1);
+    recordStoreRender(fiber);
+    recordStoreRender(createStoreFiber(2, 3));
+
+    const subscription = getStoreSubscription(fiber, 0);
+    expect(subscription?.source).toBe('useSyncExternalStore');
+    expect(subscription?.updates).toEqual([
+      {
+        library: 'redux',
+        store: 'cart',
+        action: 'cart/addItem',
+        components: 2,
+      },
+    ]);
+  });
+
+  it('recognizes subscriptions without an instrumented store', () => {
+    startStoreCommit();
+    const fiber = createStoreFiber(0, 1);
+    recordStoreRender(fiber);
+
+    expect(getStoreSubscription(fiber, 0)).toEqual({
+      source: 'useSyncExternalStore',
+      library: null,
+      updates: [],
+    });
+  });
+
+  it('reads the atom and its value from jotai hooks', () => {
+    const store = instrumentJotaiStore({
+      get: () => 1,
+      set: (_atom: unknown, ..._args: Array<unknown>) => undefined,
+      sub: () => () => {},
+    });
+    const atom = { debugLabel: 'cartAtom' };
+    store.set(atom, 1);
+
+    const hook = {
+      memoizedState: [1, store, atom],
+      queue: {},
+      next: null,
+    };
+    const fiber = {
+      tag: FunctionComponentTag,
+      alternate: {
+        memoizedState: { memoizedState: [0, store, atom], queue: {} },
+      },
+      memoizedState: hook,
+    } as unknown as Fiber;
+
+    startStoreCommit();
+    recordStoreRender(fiber);
+
+    expect(getStoreHookValue(hook)).toBe(1);
+    expect(getStoreSubscription(fiber, 0)).toMatchObject({
+      source: 'cartAtom',
+      library: 'jotai',
+      updates: [{ store: 'jotai', action: 'cartAtom', components: 1 }],
+    });
+  });
+
+  it('drops updates that no commit picked up in time', () => {
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    const store = instrumentReduxStore(createReduxStore(), 'cart');
+    store.dispatch({ type: 'cart/addItem' });
+
+    now = 1000;
+    startStoreCommit();
+    const fiber = createStoreFiber(0, 1);
+    recordStoreRender(fiber);
+
+    expect(getStoreSubscription(fiber, 0)?.updates).toEqual([]);
+  });
+
+  it('keeps the latest updates when many pile up before a commit', () => {
+    const store = instrumentReduxStore(createReduxStore(), 'cart');
+    for (let i = 0; i < 150; i++) {
+      store.dispatch({ type: 'cart/addItem' });
+    }
+
+    startStoreCommit();
+    const fiber = createStoreFiber(0, 1);
+    recordStoreRender(fiber);
+
+    expect(getStoreSubscription(fiber, 0)?.updates).toHaveLength(100);
+  });
+});
@@ -0,0 +1,292 @@
+import { ClassComponentTag, type Fiber, type MemoizedState } from 'bippy';
+
+export type StoreLibrary = 'redux' | 'zustand' | 'jotai';
+
+export interface StoreUpdate {
+  library: StoreLibrary;
+  // the name the store was instrumented with
+  store: string;
+  // the redux action type, the zustand action name or the jotai atom that was set
+  action: string | null;
+  // components that re-rendered because of the update, final once its commit finished
+  components: number;
+}
+
+export interface StoreSubscription {
+  // "useSyncExternalStore", or the atom of a jotai hook
+  source: string;
+  library: StoreLibrary | null;
+  // empty when no instrumented store changed before the render
+  updates: Array<StoreUpdate>;
+}
+
+// method syntax keeps the parameters bivariant, so the libraries' own typings fit
+interface ReduxStore {
+  getState(): unknown;
+  dispatch(action: unknown): unknown;
+}
+
+interface ZustandStore {
+  getState(): unknown;
+  setState(...args: Array<unknown>): unknown;
+  subscribe(listener: () => void): () => void;
+}
+
+interface JotaiStore {
+  get(atom: unknown): unknown;
+  set(atom: unknown, ...args: Array<unknown>): unknown;
+  sub(atom: unknown, listener: () => void): () => void;
+}
+
+interface StoreHook extends MemoizedState {
+  queue?: { getSnapshot?: unknown } | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object';
+
+// a store update renders in the next commit or not at all, older ones would
+// be attributed to an unrelated commit
+const PENDING_UPDATE_TTL_MS = 500;
+const MAX_PENDING_UPDATES = 100;
+
+// updates of instrumented stores since the last commit
+let pendingUpdates: Array<{ update: StoreUpdate; timestamp: number }> = [];
+// the updates the renders of the current commit are attributed to
+let commitUpdates: Array<StoreUpdate> = [];
+// keyed by the hook queue, shared by a fiber and its alternate. The state
+// tells whether the hook changed again without an instrumented store update
+const hookUpdates = new WeakMap<
+  object,
+  { state: unknown; updates: Array<StoreUpdate> }
+>();
+
+const recordStoreUpdate = (
+  library: StoreLibrary,
+  store: string,
+  action: string | null,
+) => {
+  pendingUpdates.push({
+    update: { library, store, action, components: 0 },
+    timestamp: performance.now(),
+  });
+  if (pendingUpdates.length > MAX_PENDING_UPDATES) {
+    pendingUpdates.shift();
+  }
+};
+
+const getActionName = (action: unknown) => {
+  if (typeof action === 'string') return action;
+  if (isRecord(action) && typeof action.type === 'string') return action.type;
+  return null;
+};
+
+/**
+ * Labels the re-renders caused by the store with its name and the action type
+ */
+export const instrumentReduxStore = <T extends ReduxStore>(
+  store: T,
+  name = 'redux',
+): T => {
+  const dispatch = store.dispatch.bind(store);
+  store.dispatch = (action: unknown) => {
+    const prevState = store.getState();
+    const result = dispatch(action);
+    if (store.getState() !== prevState) {
+      recordStoreUpdate('redux', name, getActionName(action));
+    }
+    return result;
+  };
+  return store;
+};
+
+/**
+ * Labels the re-renders caused by the store with its name, and the action name
+ * when `setState` is called with one like the devtools middleware does
+ */
+export const instrumentZustandStore = <T extends ZustandStore>(
+  store: T,
+  name = 'zustand',
+): T => {
+  let actionName: string | null = null;
+  const setState = store.setState.bind(store);
+  store.setState = (...args: Array<unknown>) => {
+    actionName = getActionName(args[2]);
+    try {
+      return setState(...args);
+    } finally {
+      actionName = null;
+    }
+  };
+  // actions defined in the store call the internal setter, only the listener sees them
+  store.subscribe(() => {
+    recordStoreUpdate('zustand', name, actionName);
+  });
+  return store;
+};
+
+const getAtomLabel = (atom: unknown) => {
+  if (isRecord(atom) && typeof atom.debugLabel === 'string') {
+    return atom.debugLabel;
+  }
+  return String(atom);
+};
+
+/**
+ * Labels the re-renders caused by the store with its name and the atom that was set
+ */
+export const instrumentJotaiStore = <T extends JotaiStore>(
+  store: T,
+  name = 'jotai',
+): T => {
+  const set = store.set.bind(store);
+  store.set = (atom: unknown, ...args: Array<unknown>) => {
+    const result = set(atom, ...args);
+    recordStoreUpdate('jotai', name, getAtomLabel(atom));
+    return result;
+  };
+  return store;
+};
+
+const isJotaiStore = (value: unknown): value is JotaiStore =>
+  isRecord(value) &&
+  typeof value.get === 'function' &&
+  typeof value.set === 'function' &&
+  typeof value.sub === 'function';
+
+const getSubscriptionSource = (
+  hook: StoreHook,
+): Pick<StoreSubscription, 'source' | 'library'> | null => {
+  const { queue, memoizedState } = hook;
+  if (isRecord(queue) && 'getSnapshot' in queue) {
+    return { source: 'useSyncExternalStore', library: null };
+  }
+  // the use-sync-external-store shim for react 17 keeps { inst: { value, getSnapshot } } in a useState
+  if (
+    isRecord(memoizedState) &&
+    isRecord(memoizedState.inst) &&
+    'getSnapshot' in memoizedState.inst
+  ) {
+    return { source: 'useSyncExternalStore', library: null };
+  }
+  // jotai's useAtomValue keeps [value, store, atom] in a useReducer
+  if (
+    Array.isArray(memoizedState) &&
+    memoizedState.length === 3 &&
+    isJotaiStore(memoizedState[1])
+  ) {
+    return { source: getAtomLabel(memoizedState[2]), library: 'jotai' };
+  }
+  return null;
+};
+
+/**
+ * The value the component reads from a store subscription hook, the selector
+ * result for useSyncExternalStore. Other hooks return their memoized state
+ */
+export const getStoreHookValue = (hook: MemoizedState): unknown => {
+  const { memoizedState } = hook;
+  if (!getSubscriptionSource(hook)) return memoizedState;
+  if (Array.isArray(memoizedState)) return memoizedState[0];
+  if (isRecord(memoizedState) && isRecord(memoizedState.inst)) {
+    return memoizedState.inst.value;
+  }
+  return memoizedState;
+};
+
+const getHook = (fiber: Fiber, index: number) => {
+  let hook: StoreHook | null = fiber.memoizedState;
+  for (let i = 0; hook && i < index; i++) {
+    hook = hook.next;
+  }
+  return hook;
+};
+
+/**
+ * Whether the state hook at `index` subscribes to an external store, and the
+ * instrumented store updates behind its latest change
+ */
+export const getStoreSubscription = (
+  fiber: Fiber,
+  index: number,
+): StoreSubscription | null => {
+  const hook = getHook(fiber, index);
+  const subscription = hook ? getSubscriptionSource(hook) : null;
+  if (!hook || !subscription) return null;
+
+  const attribution = isRecord(hook.queue) ? hookUpdates.get(hook.queue) : null;
+  return {
+    ...subscription,
+    updates:
+      attribution && Object.is(attribution.state, hook.memoizedState)
+        ? attribution.updates
+        : [],
+  };
+};
+
+// also runs for commits that aren't traversed, so their updates don't carry over
+export const startStoreCommit = () => {
+  const now = performance.now();
+  commitUpdates = [];
+  for (const { update, timestamp } of pendingUpdates) {
+    if (now - timestamp <= PENDING_UPDATE_TTL_MS) {
+      commitUpdates.push(update);
+    }
+  }
+  pendingUpdates = [];
+};
+
+/**
+ * Attributes the commit's store updates to the subscriptions of the fiber that
+ * changed and counts the fiber once for each update
+ */
+export const recordStoreRender = (fiber: Fiber) => {
+  if (
+    !commitUpdates.length ||
+    !fiber.alternate ||
+    fiber.tag === ClassComponentTag
+  ) {
+    return;
+  }
+
+  const attributed = new Set<StoreUpdate>();
+  let hook: StoreHook | null = fiber.memoizedState;
+  let prevHook: StoreHook | null = fiber.alternate.memoizedState;
+  while (hook) {
+    const subscription = getSubscriptionSource(hook);
+    // the shim mutates the snapshot it keeps, but wraps it in a new object on every change
+    if (
+      subscription &&
+      isRecord(hook.queue) &&
+      !Object.is(hook.memoizedState, prevHook?.memoizedState)
+    ) {
+      // jotai hooks only follow jotai stores, the rest can be any other store
+      const updates = commitUpdates.filter((update) =>
+        subscription.library === 'jotai'
+          ? update.library === 'jotai'
+          : update.library !== 'jotai',
+      );
+      hookUpdates.set(hook.queue, { state: hook.memoizedState, updates });
+      for (const update of updates) {
+        attributed.add(update);
+      }
+    }
+    hook = hook.next;
+    prevHook = prevHook?.next ?? null;
+  }
+
+  for (const update of attributed) {
+    update.components++;
+  }
+};
+
+export const describeStoreUpdate = ({ store, action }: StoreUpdate) =>
+  action ? `${store} ${action}` : store;
+
+export const describeStoreSubscription = ({
+  source,
+  updates,
+}: StoreSubscription) =>
+  updates.length
+    ? `${source} (${updates.map(describeStoreUpdate).join(', ')})`
+    : source;
@@ -11,12 +11,25 @@ import type { ReactNode } from 'preact/compat';
 import type { RenderData } from 'src/core/utils';
 // import { initReactScanOverlay } from '~web/overlay';
 import { initReactScanInstrumentation } from 'src/new-outlines';
+import type {
+  OutlineColorScale,
+  OutlinePaletteName,
+} from 'src/new-outlines/canvas';
 import styles from '~web/assets/css/styles.css';
 import { ICONS } from '~web/assets/svgs/svgs';
 import { createToolbar } from '~web/toolbar';
 import { readLocalStorage, saveLocalStorage } from '~web/utils/helpers';
 import type { Outline } from '~web/utils/outline';
 import type { States } from '~web/views/inspector/utils';
+import type { RenderBudget, RenderBudgetViolation } from './budgets';
+import {
+  type ComponentMatcher,
+  isComponentMatcher,
+  parseComponentMatcher,
+  serializeComponentMatchers,
+  updateComponentFilter,
+} from './component-filter';
+import type { StoreSubscription } from './external-stores';
 import type {
   ChangeReason,
   Render,
@@ -28,9 +41,6 @@ import type { getSession } from './monitor/utils';
 let rootContainer: HTMLDivElement | null = null;
 let shadowRoot: ShadowRoot | null = null;
 
-// @TODO: @pivanov - add back in when options are implemented
-// const audioContext: AudioContext | null = null;
-
 interface RootContainer {
   rootContainer: HTMLDivElement;
   shadowRoot: ShadowRoot;
@@ -125,7 +135,8 @@ export interface Options {
    */
   dangerouslyForceRunInProduction?: boolean;
   /**
-   * Log renders to the console
+   * Log renders to the console, with the lane class of their commit and how
+   * long Suspense boundaries showed their fallback
    *
    * WARNING: This can add significant overhead when the app re-renders frequently
    *
@@ -145,10 +156,34 @@ export interface Options {
   /**
    * Animation speed
    *
+   * With "off" outlines don't move or fade, they stay at full opacity for 45 frames
+   * (about 750ms at 60fps) and are then removed at once
+   *
    * @default "fast"
    */
   animationSpeed?: 'slow' | 'fast' | 'off';
 
+  /**
+   * Color outlines as a heatmap of how many times the component rendered, or how long it took to render
+   *
+   * @default "none"
+   */
+  outlineColorScale?: OutlineColorScale;
+
+  /**
+   * Outline colors, "high-contrast" uses saturated colors and thicker lines
+   *
+   * @default "default"
+   */
+  outlinePalette?: OutlinePaletteName;
+
+  /**
+   * Keep labels fully visible until their outline disappears, instead of fading them out with it
+   *
+   * @default false
+   */
+  alwaysShowLabels?: boolean;
+
   /**
    * Track unnecessary renders, and mark their outlines gray when detected
    *
@@ -160,6 +195,58 @@ export interface Options {
    */
   trackUnnecessaryRenders?: boolean;
 
+  /**
+   * Record the stack of every state setter call, so the inspector can show which code triggered a state change
+   *
+   * Setters are wrapped the first time their component renders, so an update from a setter captured before that, e.g. in a mount effect, is only attributed after the component rendered again
+   *
+   * The wrapper is what useState and useReducer return from the next render on, so the setter changes identity once
+   * and effects, memos and callbacks that list it as a dependency run one more time
+   *
+   * @default false
+   * @warning capturing a stack on every setState call adds overhead to apps that update state often
+   */
+  trackUpdateOrigins?: boolean;
+
+  /**
+   * Play a geiger counter click on every render, louder for slower renders
+   *
+   * Browsers only start audio from a user gesture, so when this is enabled from code the clicks
+   * start once the toolbar toggle or the sound setting is clicked
+   *
+   * @default false
+   */
+  playSound?: boolean;
+
+  /**
+   * Only scan these components
+   *
+   * Accepts component references, display names or regexes tested against the display name, and applies to outlines, logs, onRender and the toolbar counts
+   *
+   * @example
+   * include: [Checkout, 'CartRow', /^Checkout/]
+   */
+  include?: Array<ComponentMatcher>;
+
+  /**
+   * Never scan these components, takes precedence over {@link include}
+   */
+  exclude?: Array<ComponentMatcher>;
+
+  /**
+   * Render budgets keyed by component name
+   *
+   * Re-renders that exceed a budget get a red outline, and a console warning with the changes that caused them
+   *
+   * `maxRendersPerCommit` counts the re-renders of all instances of the component together,
+   * so a list of 20 rows that all re-render in one commit counts as 20
+   *
+   * @example
+   * budgets: { ProductRow: { maxRendersPerCommit: 1, maxSelfTime: 2 } }
+   */
+  budgets?: Record<string, RenderBudget>;
+
+  onBudgetViolation?: (violation: RenderBudgetViolation) => void;
   onCommitStart?: () => void;
   onRender?: (fiber: Fiber, renders: Array<Render>) => void;
   onCommitFinish?: () => void;
@@ -218,6 +305,8 @@ export type FunctionalComponentStateChange = {
   prevValue?: unknown;
   count?: number | undefined;
   name: string;
+  // the hook subscribes to an external store, the value is the selector result
+  store?: StoreSubscription;
 };
 export type ClassComponentStateChange = {
   type: ChangeReason.ClassState;
@@ -236,6 +325,8 @@ export type PropsChange = {
   value: unknown;
   prevValue?: unknown;
   count?: number | undefined;
+  // a new function or object that looks the same as the previous one
+  unstable?: boolean;
 };
 export type ContextChange = {
   type: ChangeReason.Context;
@@ -278,16 +369,19 @@ export const ReactScanInternals: Internals = {
   options: signal({
     enabled: true,
     // includeChildren: true,
-    // playSound: false,
+    playSound: false,
     log: false,
     showToolbar: true,
     // renderCountThreshold: 0,
     // report: undefined,
-    // alwaysShowLabels: false,
+    alwaysShowLabels: false,
     animationSpeed: 'fast',
+    outlineColorScale: 'none',
+    outlinePalette: 'default',
     dangerouslyForceRunInProduction: false,
     // smoothlyAnimateOutlines: true,
-    // trackUnnecessaryRenders: false,
+    trackUnnecessaryRenders: false,
+    trackUpdateOrigins: false,
   }),
   onRender: null,
   scheduledOutlines: new Map(),
@@ -297,17 +391,57 @@ export const ReactScanInternals: Internals = {
 
 export type LocalStorageOptions = Omit<
   Options,
+  | 'include'
+  | 'exclude'
+  | 'onBudgetViolation'
   | 'onCommitStart'
   | 'onRender'
   | 'onCommitFinish'
   | 'onPaintStart'
   | 'onPaintFinish'
->;
+> & {
+  // display names and `/pattern/flags` strings
+  include?: Array<string>;
+  exclude?: Array<string>;
+};
+
+// callbacks have no default value, so the known keys can't be read off the default options
+const optionKeys: Record<keyof Options, true> = {
+  enabled: true,
+  dangerouslyForceRunInProduction: true,
+  log: true,
+  showToolbar: true,
+  animationSpeed: true,
+  outlineColorScale: true,
+  outlinePalette: true,
+  alwaysShowLabels: true,
+  trackUnnecessaryRenders: true,
+  trackUpdateOrigins: true,
+  playSound: true,
+  include: true,
+  exclude: true,
+  budgets: true,
+  onBudgetViolation: true,
+  onCommitStart: true,
+  onRender: true,
+  onCommitFinish: true,
+  onPaintStart: true,
+  onPaintFinish: true,
+};
 
 function isOptionKey(key: string): key is keyof Options {
-  return key in ReactScanInternals.options.value;
+  return key in optionKeys;
 }
 
+const isValidRenderBudget = (budget: unknown): budget is RenderBudget => {
+  if (!budget || typeof budget !== 'object') return false;
+  for (const [key, value] of Object.entries(budget)) {
+    if (key !== 'maxRendersPerCommit' && key !== 'maxSelfTime') return false;
+    if (typeof value !== 'number' || value < 0) return false;
+  }
+  return true;
+};
+
 const validateOptions = (options: Partial<Options>): Partial<Options> => {
   const errors: Array<string> = [];
   const validOptions: Partial<Options> = {};
@@ -322,7 +456,9 @@ const validateOptions = (options: Partial<Options>): Partial<Options> => {
       case 'log':
       case 'showToolbar':
       // case 'report':
-      // case 'alwaysShowLabels':
+      case 'alwaysShowLabels':
+      case 'trackUpdateOrigins':
+      case 'playSound':
       case 'dangerouslyForceRunInProduction':
         if (typeof value !== 'boolean') {
           errors.push(`- ${key} must be a boolean. Got "${value}"`);
@@ -347,6 +483,24 @@ const validateOptions = (options: Partial<Options>): Partial<Options> => {
           validOptions[key] = value as 'slow' | 'fast' | 'off';
         }
         break;
+      case 'outlineColorScale':
+        if (!['none', 'renders', 'selfTime'].includes(value as string)) {
+          errors.push(
+            `- Invalid outline color scale "${value}". Using default "none"`,
+          );
+        } else {
+          validOptions[key] = value as OutlineColorScale;
+        }
+        break;
+      case 'outlinePalette':
+        if (!['default', 'high-contrast'].includes(value as string)) {
+          errors.push(
+            `- Invalid outline palette "${value}". Using default "default"`,
+          );
+        } else {
+          validOptions[key] = value as OutlinePaletteName;
+        }
+        break;
       case 'onCommitStart':
         if (typeof value !== 'function') {
           errors.push(`- ${key} must be a function. Got "${value}"`);
@@ -379,11 +533,48 @@ const validateOptions = (options: Partial<Options>): Partial<Options> => {
           validOptions[key] = value as (outlines: Array<Outline>) => void;
         }
         break;
-      // case 'trackUnnecessaryRenders': {
-      //   validOptions.trackUnnecessaryRenders =
-      //     typeof value === 'boolean' ? value : false;
-      //   break;
-      // }
+      case 'include':
+      case 'exclude':
+        if (!Array.isArray(value) || !value.every(isComponentMatcher)) {
+          errors.push(
+            `- ${key} must be an array of components, display names or regexes. Got "${value}"`,
+          );
+        } else {
+          validOptions[key] = value;
+        }
+        break;
+      case 'budgets': {
+        if (!value || typeof value !== 'object') {
+          errors.push(`- ${key} must be an object. Got "${value}"`);
+          break;
+        }
+        const budgets: Record<string, RenderBudget> = {};
+        for (const [name, budget] of Object.entries(value)) {
+          if (isValidRenderBudget(budget)) {
+            budgets[name] = budget;
+          } else {
+            errors.push(
+              `- Invalid budget for "${name}", expected { maxRendersPerCommit?: number, maxSelfTime?: number }`,
+            );
+          }
+        }
+        validOptions.budgets = budgets;
+        break;
+      }
+      case 'onBudgetViolation':
+        if (typeof value !== 'function') {
+          errors.push(`- ${key} must be a function. Got "${value}"`);
+        } else {
+          validOptions.onBudgetViolation = value as (
+            violation: RenderBudgetViolation,
+          ) => void;
+        }
+        break;
+      case 'trackUnnecessaryRenders': {
+        validOptions.trackUnnecessaryRenders =
+          typeof value === 'boolean' ? value : false;
+        break;
+      }
       // case 'smoothlyAnimateOutlines': {
       //   validOptions.smoothlyAnimateOutlines =
       //     typeof value === 'boolean' ? value : false;
@@ -436,7 +627,17 @@ export const setOptions = (userOptions: Partial<Options>) => {
 
   ReactScanInternals.options.value = newOptions;
 
-  saveLocalStorage('react-scan-options', newOptions);
+  if ('include' in validOptions || 'exclude' in validOptions) {
+    updateComponentFilter(newOptions);
+  }
+
+  const { include, exclude, ...rest } = newOptions;
+  const localStorageOptions: LocalStorageOptions = {
+    ...rest,
+    include: serializeComponentMatchers(include),
+    exclude: serializeComponentMatchers(exclude),
+  };
+  saveLocalStorage('react-scan-options', localStorageOptions);
 
   if (shouldInitToolbar) {
     initToolbar(!!newOptions.showToolbar);
@@ -480,13 +681,23 @@ export const start = () => {
     readLocalStorage<LocalStorageOptions>('react-scan-options');
 
   if (localStorageOptions) {
-    const validLocalOptions = validateOptions(localStorageOptions);
+    const { include, exclude, ...rest } = localStorageOptions;
+    const validLocalOptions = validateOptions({
+      ...rest,
+      ...(Array.isArray(include) && {
+        include: include.map(parseComponentMatcher),
+      }),
+      ...(Array.isArray(exclude) && {
+        exclude: exclude.map(parseComponentMatcher),
+      }),
+    });
 
     if (Object.keys(validLocalOptions).length > 0) {
       ReactScanInternals.options.value = {
         ...ReactScanInternals.options.value,
         ...validLocalOptions,
       };
+      updateComponentFilter(ReactScanInternals.options.value);
     }
   }
 
@@ -563,3 +774,27 @@ export const ignoreScan = (node: ReactNode) => {
     ignoredProps.add(node);
   }
 };
+
+export { isRecording, startRecording, stopRecording } from './recording';
+export type {
+  RecordedChange,
+  RecordedCommit,
+  RecordedRender,
+  RenderTrace,
+} from './recording';
+export type { RenderBudget, RenderBudgetViolation } from './budgets';
+export type { LaneClass } from './lanes';
+export type { SuspenseCause, SuspenseFallback } from './suspense';
+export type { ComponentMatcher } from './component-filter';
+export {
+  instrumentJotaiStore,
+  instrumentReduxStore,
+  instrumentZustandStore,
+} from './external-stores';
+export type {
+  StoreLibrary,
+  StoreSubscription,
+  StoreUpdate,
+} from './external-stores';
+export { downloadTraceEvents, toTraceEvents } from './trace-event';
+export type { TraceEvent, TraceEventFile } from './trace-event';
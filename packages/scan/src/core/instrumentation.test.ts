@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { type Fiber, getDisplayName, installRDTHook } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import { type Render, createInstrumentation } from '~core/instrumentation';
+import { getWastedRenderCount } from '~core/unstable-props';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+let shouldTrackChanges = false;
+const renders = new Map<string, Render>();
+
+createInstrumentation('react-scan-track-changes-test', {
+  onCommitStart() {},
+  isValidFiber: () => true,
+  onRender(fiber: Fiber, [render]) {
+    const name = getDisplayName(fiber.type);
+    if (name) renders.set(name, render);
+  },
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: () => shouldTrackChanges,
+});
+
+describe('trackChanges', () => {
+  it('only collects the changes of a commit while the gate is open', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    let setCount: (count: number) => void = () => {};
+    const Label = ({ count }: { count: number }) =>
+      createElement('span', null, count);
+    const Counter = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(Label, { count });
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Counter)));
+
+    flushSync(() => setCount(1));
+    expect(renders.get('Label')?.changes).toEqual([]);
+
+    shouldTrackChanges = true;
+    flushSync(() => setCount(2));
+    expect(renders.get('Label')?.changes).toMatchObject([
+      { name: 'count', value: 2, prevValue: 1 },
+    ]);
+    expect(renders.get('Counter')?.changes).toMatchObject([
+      { name: '0', value: 2 },
+    ]);
+    root.unmount();
+  });
+
+  it('counts renders caused by unstable props while the gate is closed', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    shouldTrackChanges = false;
+    let setCount: (count: number) => void = () => {};
+    const Badge = ({ style }: { style: { color: string } }) =>
+      createElement('span', { style });
+    const Header = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(
+        'div',
+        { title: String(count) },
+        createElement(Badge, { style: { color: 'red' } }),
+      );
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Header)));
+    flushSync(() => setCount(1));
+    flushSync(() => setCount(2));
+
+    expect(renders.get('Badge')?.changes).toEqual([]);
+    expect(getWastedRenderCount(Badge)).toBe(2);
+    // its own state changed
+    expect(getWastedRenderCount(Header)).toBe(0);
+    root.unmount();
+  });
+});
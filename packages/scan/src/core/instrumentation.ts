@@ -30,13 +30,48 @@ import {
   collectPropsChanges,
   collectStateChanges,
 } from '~web/views/inspector/timeline/utils';
+import { checkBreakpoints, getBreakpoints } from './breakpoints';
+import {
+  checkRenderBudget,
+  getRenderBudget,
+  reportRenderBudgetViolation,
+  resetCommitRenderCounts,
+} from './budgets';
+import { isComponentScanned } from './component-filter';
+import {
+  recordContextConsumerRender,
+  resetCommitContextChanges,
+} from './context-fan-out';
+import {
+  getStoreSubscription,
+  recordStoreRender,
+  startStoreCommit,
+} from './external-stores';
 import {
   type Change,
   type ContextChange,
   ReactScanInternals,
   type StateChange,
   Store,
+  getIsProduction,
 } from './index';
+import {
+  type LaneClass,
+  getCommitLane,
+  recordDeferredValueRender,
+  startLaneCommit,
+} from './lanes';
+import {
+  checkRemountChurn,
+  isRemountChurn,
+  recordRemountMount,
+  recordRemountUnmount,
+  resetCommitRemounts,
+} from './remount-churn';
+import { recordLoopRender, startRenderLoopCommit } from './render-loop';
+import { recordSuspenseRender, startSuspenseCommit } from './suspense';
+import { isUnstablePropsRender, recordWastedRender } from './unstable-props';
+import { shouldTrackUpdateOrigins, trackUpdateOrigins } from './update-origins';
 
 let fps = 0;
 let lastTime = performance.now();
@@ -118,8 +153,13 @@ export interface Render {
   forget: boolean;
   changes: Array<Change>;
   unnecessary: boolean | null;
+  overBudget: boolean;
+  // mounted at a position that keeps unmounting and mounting again
+  remounted: boolean;
   didCommit: boolean;
   fps: number;
+  // the lane class of the commit, null when react left no lanes to compare
+  lane: LaneClass | null;
 }
 
 const unstableTypes = ['function', 'object'];
@@ -329,6 +369,7 @@ type OnCommitStartHandler = () => void;
 type OnCommitFinishHandler = () => void;
 type OnErrorHandler = (error: unknown) => void;
 type IsValidFiberHandler = (fiber: Fiber) => boolean;
+type IsFiberOnScreenHandler = (fiber: Fiber) => boolean;
 type OnActiveHandler = () => void;
 
 interface InstrumentationConfig {
@@ -339,8 +380,11 @@ interface InstrumentationConfig {
   onError: OnErrorHandler;
   onActive?: OnActiveHandler;
   onPostCommitFiberRoot: () => void;
+  // isRenderUnnecessary is expensive, so it only runs for fibers an instance reports as visible
+  isFiberOnScreen?: IsFiberOnScreenHandler;
   // monitoring does not need to track changes, and it adds overhead to leave it on
-  trackChanges: boolean;
+  // a function is checked on every render, for instances that only need changes some of the time
+  trackChanges: boolean | (() => boolean);
   // allows monitoring to continue tracking renders even if react scan dev mode is disabled
   forceAlwaysTrackRenders?: boolean;
 }
@@ -394,72 +438,175 @@ export const isRenderUnnecessary = (fiber: Fiber) => {
   return true;
 };
 
-// // re-implement this in new-outlines
-// const shouldRunUnnecessaryRenderCheck = () => {
-//   // yes, this can be condensed into one conditional, but ifs are easier to reason/build on than long boolean expressions
-//   if (!ReactScanInternals.options.value.trackUnnecessaryRenders) {
-//     return false;
-//   }
-
-//   // only run unnecessaryRenderCheck when monitoring is active in production if the user set dangerouslyForceRunInProduction
-//   if (
-//     getIsProduction() &&
-//     Store.monitor.value &&
-//     ReactScanInternals.options.value.dangerouslyForceRunInProduction &&
-//     ReactScanInternals.options.value.trackUnnecessaryRenders
-//   ) {
-//     return true;
-//   }
+const shouldRunUnnecessaryRenderCheck = () => {
+  // yes, this can be condensed into one conditional, but ifs are easier to reason/build on than long boolean expressions
+  if (!ReactScanInternals.options.value.trackUnnecessaryRenders) {
+    return false;
+  }
 
-//   if (getIsProduction() && Store.monitor.value) {
-//     return false;
-//   }
+  // only run unnecessaryRenderCheck when monitoring is active in production if the user set dangerouslyForceRunInProduction
+  if (
+    getIsProduction() &&
+    Store.monitor.value &&
+    ReactScanInternals.options.value.dangerouslyForceRunInProduction
+  ) {
+    return true;
+  }
 
-//   return ReactScanInternals.options.value.trackUnnecessaryRenders;
-// };
+  if (getIsProduction() && Store.monitor.value) {
+    return false;
+  }
 
-const TRACK_UNNECESSARY_RENDERS = false;
+  return true;
+};
 
 export interface RenderData {
   selfTime: number;
   totalTime: number;
   renderCount: number;
   lastRenderTimestamp: number;
+  // session totals for the summary view, unlike renderCount they aren't debounced
+  displayName: string | null;
+  renders: number;
+  mounts: number;
+  unmounts: number;
+  totalSelfTime: number;
+  // renders that ran the unnecessary render check, the ratio is relative to these
+  checkedRenders: number;
+  unnecessaryRenders: number;
+  changeReasons: Map<string, number>;
+  // mounted fibers of the type, either side of the alternate pair
+  instances: Set<Fiber>;
 }
 
 const RENDER_DEBOUNCE_MS = 16;
 
 export const renderDataMap = new WeakMap<object, RenderData>();
+// the map can't be iterated, the summary view lists every type seen this session
+export const renderDataTypes = new Set<object>();
+
+const getRenderData = (type: object, displayName: string | null) => {
+  let renderData = renderDataMap.get(type);
+  if (!renderData) {
+    renderData = {
+      selfTime: 0,
+      totalTime: 0,
+      renderCount: 0,
+      lastRenderTimestamp: 0,
+      displayName,
+      renders: 0,
+      mounts: 0,
+      unmounts: 0,
+      totalSelfTime: 0,
+      checkedRenders: 0,
+      unnecessaryRenders: 0,
+      changeReasons: new Map(),
+      instances: new Set(),
+    };
+    renderDataMap.set(type, renderData);
+    renderDataTypes.add(type);
+  }
+  return renderData;
+};
+
+const CHANGE_REASON_LABELS: Record<ChangeReason, string> = {
+  [ChangeReason.Props]: 'prop',
+  [ChangeReason.FunctionalState]: 'state',
+  [ChangeReason.ClassState]: 'state',
+  [ChangeReason.Context]: 'context',
+};
+
+const getChangeReasonLabel = (change: Change) => {
+  // every selector of a store is a separate hook, group them by the store
+  if (change.type === ChangeReason.FunctionalState && change.store) {
+    const [update] = change.store.updates;
+    return `store ${update ? update.store : change.store.source}`;
+  }
+  return `${CHANGE_REASON_LABELS[change.type]} ${change.name}`;
+};
+
+// the wasted render count can't wait for the changes gate, the state and
+// context are only compared when every prop is unstable
+const isUnstablePropsUpdate = (fiber: Fiber) => {
+  const changesProps = collectPropsChanges(fiber).changes;
+  if (!changesProps.length) return false;
+  for (const change of changesProps) {
+    if (!isValueUnstable(change.prevValue, change.value)) return false;
+  }
+  return (
+    !collectStateChanges(fiber).changes.length &&
+    !collectContextChanges(fiber).changes.length
+  );
+};
+
+// only counts unmounts of mounts the session saw, so they never outnumber them
+const trackSessionUnmount = (type: object, fiber: Fiber) => {
+  const renderData = renderDataMap.get(type);
+  if (!renderData) return;
+
+  const wasMounted = renderData.instances.delete(fiber);
+  const wasAlternateMounted =
+    !!fiber.alternate && renderData.instances.delete(fiber.alternate);
+  if (wasMounted || wasAlternateMounted) {
+    renderData.unmounts++;
+  }
+};
+
+const trackSessionRender = (
+  type: object,
+  fiber: Fiber,
+  phase: 'mount' | 'update' | 'unmount',
+  render: Render,
+) => {
+  if (phase === 'unmount') {
+    trackSessionUnmount(type, fiber);
+    return;
+  }
+
+  const renderData = getRenderData(type, render.componentName);
+
+  if (phase === 'mount') {
+    renderData.mounts++;
+    renderData.instances.add(fiber);
+  }
+  renderData.renders++;
+  renderData.totalSelfTime += render.time ?? 0;
+  if (render.unnecessary !== null) {
+    renderData.checkedRenders++;
+    if (render.unnecessary) {
+      renderData.unnecessaryRenders++;
+    }
+  }
+  for (const change of render.changes) {
+    const reason = getChangeReasonLabel(change);
+    renderData.changeReasons.set(
+      reason,
+      (renderData.changeReasons.get(reason) ?? 0) + 1,
+    );
+  }
+};
 
 const trackRender = (
-  type: unknown,
+  type: object,
   fiberSelfTime: number,
   fiberTotalTime: number,
   hasChanges: boolean,
   hasDomMutations: boolean,
 ) => {
   const currentTimestamp = Date.now();
-  const existingData = renderDataMap.get(type as object);
+  const renderData = renderDataMap.get(type);
+  if (!renderData) return;
 
   if (
     (hasChanges || hasDomMutations) &&
-    (!existingData ||
-      currentTimestamp - (existingData.lastRenderTimestamp || 0) >
-        RENDER_DEBOUNCE_MS)
+    currentTimestamp - renderData.lastRenderTimestamp > RENDER_DEBOUNCE_MS
   ) {
-    const renderData: RenderData = existingData || {
-      selfTime: 0,
-      totalTime: 0,
-      renderCount: 0,
-      lastRenderTimestamp: currentTimestamp,
-    };
-
     renderData.renderCount = (renderData.renderCount || 0) + 1;
     renderData.selfTime = fiberSelfTime || 0;
     renderData.totalTime = fiberTotalTime || 0;
     renderData.lastRenderTimestamp = currentTimestamp;
 
-    renderDataMap.set(type as object, { ...renderData });
+    renderDataMap.set(type, { ...renderData });
   }
 };
 
@@ -483,7 +630,7 @@ export const createInstrumentation = (
     instrument({
       name: 'react-scan',
       onActive: config.onActive,
-      onCommitFiberRoot(_rendererID, root) {
+      onCommitFiberRoot(rendererID, root) {
         instrumentation.fiberRoots.add(root);
         if (
           ReactScanInternals.instrumentation?.isPaused.value &&
@@ -491,16 +638,30 @@ export const createInstrumentation = (
             Store.inspectState.value.kind === 'uninitialized') &&
           !config.forceAlwaysTrackRenders
         ) {
+          // drop the unmounts react reported and the store updates behind this commit
+          resetCommitRemounts();
+          startStoreCommit();
           return;
         }
+        resetCommitRenderCounts();
+        resetCommitContextChanges();
+        startRenderLoopCommit();
+        startStoreCommit();
+        startLaneCommit(rendererID, root);
+        startSuspenseCommit();
+
         const allInstances = getAllInstances();
         for (const instance of allInstances) {
           instance.config.onCommitStart();
         }
 
+        // keyed by the root, its current fiber alternates between commits
         traverseRenderedFibers(
-          root.current,
+          root,
           (fiber: Fiber, phase: 'mount' | 'update' | 'unmount') => {
+            // boundaries have no component type, they're timed before the type check
+            recordSuspenseRender(fiber, phase);
+
             const type = getType(fiber.type);
             if (!type) return null;
 
@@ -513,25 +674,52 @@ export const createInstrumentation = (
             }
             if (!validInstancesIndicies.length) return null;
 
+            const componentName = getDisplayName(type);
+            if (phase === 'update') {
+              recordStoreRender(fiber);
+              recordDeferredValueRender(fiber);
+            }
+            if (phase !== 'unmount' && shouldTrackUpdateOrigins()) {
+              trackUpdateOrigins(fiber);
+            }
+            // budgets only apply to re-renders, mounting a list of rows is expected
+            const budget =
+              phase === 'update' ? getRenderBudget(componentName) : null;
+
+            const breakpoints = getBreakpoints(componentName);
+
             const changes: Array<Change> = [];
 
-            if (allInstances.some((instance) => instance.config.trackChanges)) {
+            // only pay for change detection when an instance interested in this fiber asks for it,
+            // or when the violation warning of a budgeted component or a breakpoint needs it
+            let shouldTrackChanges = budget !== null || breakpoints !== null;
+            for (let i = 0, len = validInstancesIndicies.length; i < len; i++) {
+              const { trackChanges } =
+                allInstances[validInstancesIndicies[i]].config;
+              if (
+                trackChanges === true ||
+                (typeof trackChanges === 'function' && trackChanges())
+              ) {
+                shouldTrackChanges = true;
+                break;
+              }
+            }
+
+            if (shouldTrackChanges) {
               const changesProps = collectPropsChanges(fiber).changes;
               const changesState = collectStateChanges(fiber).changes;
               const changesContext = collectContextChanges(fiber).changes;
 
               // Convert props changes
-              changes.push.apply(
-                null,
-                changesProps.map(
-                  (change) =>
-                    ({
-                      type: ChangeReason.Props,
-                      name: change.name,
-                      value: change.value,
-                    }) as Change,
-                ),
-              );
+              for (const change of changesProps) {
+                changes.push({
+                  type: ChangeReason.Props,
+                  name: change.name,
+                  value: change.value,
+                  prevValue: change.prevValue,
+                  unstable: isValueUnstable(change.prevValue, change.value),
+                } as Change);
+              }
 
               // Convert state changes
               for (const change of changesState) {
@@ -542,55 +730,109 @@ export const createInstrumentation = (
                     value: change.value,
                   } as Change);
                 } else {
+                  const store =
+                    typeof change.name === 'number'
+                      ? getStoreSubscription(fiber, change.name)
+                      : null;
                   changes.push({
                     type: ChangeReason.FunctionalState,
                     name: change.name.toString(),
                     value: change.value,
+                    ...(store && { store }),
                   } as Change);
                 }
               }
 
               // Convert context changes
-              changes.push.apply(
-                null,
-                changesContext.map(
-                  (change) =>
-                    ({
-                      type: ChangeReason.Context,
-                      name: change.name,
-                      value: change.value,
-                      contextType: Number(change.contextType),
-                    }) as Change,
-                ),
-              );
+              for (const change of changesContext) {
+                changes.push({
+                  type: ChangeReason.Context,
+                  name: change.name,
+                  value: change.value,
+                  contextType: Number(change.contextType),
+                } as Change);
+              }
             }
 
             // Get timing information for this render
             const { selfTime: fiberSelfTime, totalTime: fiberTotalTime } =
               getTimings(fiber);
 
+            if (phase === 'update') {
+              recordContextConsumerRender(fiber, fiberSelfTime);
+            }
+            if (phase === 'mount') {
+              recordRemountMount(fiber, componentName);
+            }
+            if (phase === 'update') {
+              recordLoopRender(fiber, componentName);
+            }
+
+            let unnecessary: boolean | null = null;
+            if (phase === 'update' && shouldRunUnnecessaryRenderCheck()) {
+              for (
+                let i = 0, len = validInstancesIndicies.length;
+                i < len;
+                i++
+              ) {
+                const instance = allInstances[validInstancesIndicies[i]];
+                if (instance.config.isFiberOnScreen?.(fiber)) {
+                  unnecessary = isRenderUnnecessary(fiber);
+                  break;
+                }
+              }
+            }
+
+            const budgetViolation =
+              budget && componentName
+                ? checkRenderBudget(
+                    fiber,
+                    componentName,
+                    budget,
+                    fiberSelfTime,
+                    changes,
+                  )
+                : null;
+            if (budgetViolation) {
+              reportRenderBudgetViolation(budgetViolation);
+            }
+
             const fps = getFPS();
             const render: Render = {
               phase: RENDER_PHASE_STRING_TO_ENUM[phase],
-              componentName: getDisplayName(type),
+              componentName,
               count: 1,
               changes,
               time: fiberSelfTime,
               forget: hasMemoCache(fiber),
-              // todo: allow this to be toggle-able through toolbar
-              // todo: performance optimization: if the last fiber measure was very off screen, do not run isRenderUnnecessary
-              unnecessary: TRACK_UNNECESSARY_RENDERS
-                ? isRenderUnnecessary(fiber)
-                : null,
+              unnecessary,
+              overBudget: budgetViolation !== null,
+              remounted:
+                phase === 'mount' && isRemountChurn(fiber, componentName),
               didCommit: didFiberCommit(fiber),
               fps,
+              lane: getCommitLane(),
             };
 
+            if (breakpoints) {
+              checkBreakpoints(fiber, breakpoints, render);
+            }
+
             // First, determine if this is a real render we should track
             const hasChanges = changes.length > 0;
             const hasDomMutations = getMutatedHostFibers(fiber).length > 0;
 
-            if (phase === 'update') {
+            if (isComponentScanned(type)) {
+              trackSessionRender(type, fiber, phase, render);
+            }
+
+            if (phase === 'update' && isComponentScanned(type)) {
+              const isWasted = shouldTrackChanges
+                ? isUnstablePropsRender(changes)
+                : isUnstablePropsUpdate(fiber);
+              if (isWasted) {
+                recordWastedRender(type);
+              }
               trackRender(
                 type,
                 fiberSelfTime,
@@ -608,10 +850,21 @@ export const createInstrumentation = (
           },
         );
 
+        checkRemountChurn();
+
         for (const instance of allInstances) {
           instance.config.onCommitFinish();
         }
       },
+      // react reports every removed fiber here, the traversal only sees the
+      // ones a suspense boundary hid
+      onCommitFiberUnmount(_rendererID, fiber) {
+        const type = getType(fiber.type);
+        if (type) {
+          trackSessionUnmount(type, fiber);
+          recordRemountUnmount(getDisplayName(type));
+        }
+      },
       onPostCommitFiberRoot() {
         const allInstances = getAllInstances();
         for (const instance of allInstances) {
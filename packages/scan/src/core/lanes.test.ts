@@ -0,0 +1,94 @@
+import type { Fiber, FiberRoot } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import {
+  getCommitLane,
+  recordDeferredValueRender,
+  startLaneCommit,
+} from '~core/lanes';
+
+// not registered with the devtools hook, so the react 18 layout applies
+const RENDERER_ID = 100;
+const DefaultLane = 0b10000;
+const TransitionLane = 0b1000000;
+const IdleLane = 1 << 29;
+
+const createRoot = (
+  prevLanes: number,
+  nextLanes = 0,
+  prevState: unknown = {},
+) =>
+  ({
+    current: {
+      lanes: 0,
+      childLanes: nextLanes,
+      alternate: { lanes: 0, childLanes: prevLanes, memoizedState: prevState },
+    },
+  }) as unknown as FiberRoot;
+
+describe('lanes', () => {
+  it('classifies the highest priority lane the commit finished', () => {
+    startLaneCommit(RENDERER_ID, createRoot(DefaultLane | TransitionLane));
+    expect(getCommitLane()).toBe('default');
+
+    // the transition is still pending after the urgent commit
+    startLaneCommit(
+      RENDERER_ID,
+      createRoot(DefaultLane | TransitionLane, TransitionLane),
+    );
+    expect(getCommitLane()).toBe('default');
+
+    startLaneCommit(RENDERER_ID, createRoot(TransitionLane));
+    expect(getCommitLane()).toBe('transition');
+
+    startLaneCommit(RENDERER_ID, createRoot(IdleLane));
+    expect(getCommitLane()).toBe('deferred');
+  });
+
+  it('tags the commit that hydrates the root', () => {
+    startLaneCommit(
+      RENDERER_ID,
+      createRoot(DefaultLane, 0, { isDehydrated: true }),
+    );
+    expect(getCommitLane()).toBe('hydration');
+  });
+
+  it('tags a transition where a deferred value caught up as deferred', () => {
+    startLaneCommit(RENDERER_ID, createRoot(TransitionLane));
+    const fiber = {
+      _debugHookTypes: ['useState', 'useContext', 'useDeferredValue'],
+      memoizedState: {
+        memoizedState: 'query',
+        next: { memoizedState: 'query', next: null },
+      },
+      alternate: {
+        memoizedState: {
+          memoizedState: 'query',
+          next: { memoizedState: 'que', next: null },
+        },
+      },
+    } as unknown as Fiber;
+
+    recordDeferredValueRender(fiber);
+    expect(getCommitLane()).toBe('deferred');
+  });
+
+  it('skips the subscription effect of a store before the deferred value', () => {
+    startLaneCommit(RENDERER_ID, createRoot(TransitionLane));
+    // react creates the effect of the subscription again on every render
+    const createHooks = () => ({
+      memoizedState: 'cart',
+      next: {
+        memoizedState: { tag: 9, create: () => {}, deps: [] },
+        next: { memoizedState: 'query', next: null },
+      },
+    });
+    const fiber = {
+      _debugHookTypes: ['useSyncExternalStore', 'useDeferredValue'],
+      memoizedState: createHooks(),
+      alternate: { memoizedState: createHooks() },
+    } as unknown as Fiber;
+
+    recordDeferredValueRender(fiber);
+    expect(getCommitLane()).toBe('transition');
+  });
+});
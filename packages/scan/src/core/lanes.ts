@@ -0,0 +1,153 @@
+import {
+  type Fiber,
+  type FiberRoot,
+  type MemoizedState,
+  getRDTHook,
+} from 'bippy';
+import { findHookIndices } from '~web/views/inspector/hooks/utils';
+
+export type LaneClass =
+  | 'sync'
+  | 'default'
+  | 'transition'
+  | 'deferred'
+  | 'hydration';
+
+interface LaneRenderer {
+  version?: string;
+  // development and profiling builds only
+  getLaneLabelMap?: () => Map<number, string> | null;
+}
+
+const repeatLabel = (label: string, count: number): Array<string> =>
+  Array.from({ length: count }, () => label);
+
+// lane layouts for builds without getLaneLabelMap, indexed by lane bit
+const REACT_18_LANE_LABELS = [
+  'Sync',
+  'InputContinuousHydration',
+  'InputContinuous',
+  'DefaultHydration',
+  'Default',
+  'TransitionHydration',
+  ...repeatLabel('Transition', 16),
+  ...repeatLabel('Retry', 5),
+  'SelectiveHydration',
+  'IdleHydration',
+  'Idle',
+  'Offscreen',
+];
+
+const REACT_19_LANE_LABELS = [
+  'SyncHydrationLane',
+  'Sync',
+  'InputContinuousHydration',
+  'InputContinuous',
+  'DefaultHydration',
+  'Default',
+  'TransitionHydration',
+  ...repeatLabel('Transition', 15),
+  ...repeatLabel('Retry', 4),
+  'SelectiveHydration',
+  'IdleHydration',
+  'Idle',
+  'Offscreen',
+  'Deferred',
+];
+
+const toLaneLabelMap = (labels: Array<string>) =>
+  new Map(labels.map((label, index) => [1 << index, label]));
+
+// keyed by renderer id, the layout never changes for a renderer
+const laneLabelMaps = new Map<number, Map<number, string>>();
+
+let commitLane: LaneClass | null = null;
+
+const getLaneLabelMap = (rendererID: number) => {
+  let labelMap = laneLabelMaps.get(rendererID);
+  if (labelMap) return labelMap;
+
+  const renderer = getRDTHook().renderers.get(rendererID) as
+    | LaneRenderer
+    | undefined;
+  labelMap = renderer?.getLaneLabelMap?.() ?? undefined;
+  if (!labelMap) {
+    const major = Number.parseInt(renderer?.version ?? '', 10);
+    labelMap = toLaneLabelMap(
+      major >= 19 ? REACT_19_LANE_LABELS : REACT_18_LANE_LABELS,
+    );
+  }
+  laneLabelMaps.set(rendererID, labelMap);
+  return labelMap;
+};
+
+const getLaneClassFromLabel = (label: string): LaneClass => {
+  if (label.includes('Hydration')) return 'hydration';
+  switch (label) {
+    // continuous input blocks like a discrete event, it is only batched per frame
+    case 'Sync':
+    case 'InputContinuous':
+      return 'sync';
+    case 'Default':
+      return 'default';
+    case 'Deferred':
+    case 'Idle':
+    case 'Offscreen':
+      return 'deferred';
+    // suspense retries are scheduled like transitions
+    default:
+      return 'transition';
+  }
+};
+
+const getRootLanes = (fiber: Fiber) => fiber.lanes | fiber.childLanes;
+
+/**
+ * Classifies the lanes the commit finished: the previous tree still holds the
+ * lanes that were pending before the render, the committed one what is left
+ */
+export const startLaneCommit = (rendererID: number, root: FiberRoot) => {
+  const current: Fiber = root.current;
+  const prev = current.alternate;
+  if (!prev) {
+    commitLane = null;
+    return;
+  }
+  if (prev.memoizedState?.isDehydrated) {
+    commitLane = 'hydration';
+    return;
+  }
+
+  const lanes = getRootLanes(prev) & ~getRootLanes(current);
+  // the highest priority lane decides, lower ones were only batched with it
+  const label = lanes ? getLaneLabelMap(rendererID).get(lanes & -lanes) : null;
+  commitLane = label ? getLaneClassFromLabel(label) : null;
+};
+
+export const getCommitLane = () => commitLane;
+
+/**
+ * useDeferredValue renders its new value in a transition lane, a transition
+ * commit where a deferred value caught up is deferred. Needs the hook types
+ * development builds record, so components rendered before the first one with
+ * a changed deferred value keep the transition class
+ */
+export const recordDeferredValueRender = (fiber: Fiber) => {
+  if (commitLane !== 'transition' || !fiber.alternate) return;
+  const indices = findHookIndices(fiber, 'deferredValue');
+  if (!indices?.length) return;
+
+  let hook: MemoizedState | null = fiber.memoizedState;
+  let prevHook: MemoizedState | null = fiber.alternate.memoizedState;
+  for (let i = 0; hook && prevHook; i++) {
+    if (
+      indices.includes(i) &&
+      !Object.is(hook.memoizedState, prevHook.memoizedState)
+    ) {
+      commitLane = 'deferred';
+      return;
+    }
+    hook = hook.next;
+    prevHook = prevHook.next;
+  }
+};
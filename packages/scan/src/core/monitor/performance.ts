@@ -4,6 +4,7 @@ import { Store } from '..';
 import type {
   PerformanceInteraction,
   PerformanceInteractionEntry,
+  PerformanceLongFrameEntry,
 } from './types';
 
 interface PathFilters {
@@ -139,7 +140,7 @@ const handleMouseover = (event: Event) => {
   currentMouseOver = event.target;
 };
 
-const getFirstNamedAncestorCompositeFiber = (element: Element) => {
+export const getFirstNamedAncestorCompositeFiber = (element: Element) => {
   let curr: Element | null = element;
   let parentCompositeFiber: Fiber | null = null;
   while (!parentCompositeFiber && curr.parentElement) {
@@ -232,8 +233,13 @@ const getInteractionType = (
   return null;
 };
 
-const setupPerformanceListener = (
+/**
+ * `onEntry` is called with the first entry of an interaction, `onUpdate` when
+ * a later entry of the same interaction raises its latency
+ */
+export const setupPerformanceListener = (
   onEntry: (interaction: PerformanceInteraction) => void,
+  onUpdate?: (interaction: PerformanceInteraction) => void,
 ) => {
   trackVisibilityChange();
   const longestInteractionMap = new Map<string, PerformanceInteraction>();
@@ -256,6 +262,7 @@ const setupPerformanceListener = (
       if (entry.duration > existingInteraction.latency) {
         existingInteraction.entries = [entry];
         existingInteraction.latency = entry.duration;
+        onUpdate?.(existingInteraction);
       } else if (
         entry.duration === existingInteraction.latency &&
         entry.startTime === existingInteraction.entries[0].startTime
@@ -319,3 +326,28 @@ const setupPerformanceListener = (
 
   return po.disconnect.bind(po);
 };
+
+// long-animation-frame is only available in chromium 123+, longtask is the closest fallback
+export const setupLongFrameListener = (
+  onEntry: (entry: PerformanceLongFrameEntry) => void,
+) => {
+  const po = new PerformanceObserver((list) => {
+    const entries = list.getEntries();
+    for (let i = 0, len = entries.length; i < len; i++) {
+      onEntry(entries[i] as PerformanceLongFrameEntry);
+    }
+  });
+
+  const supportedEntryTypes = PerformanceObserver.supportedEntryTypes ?? [];
+  try {
+    if (supportedEntryTypes.includes('long-animation-frame')) {
+      po.observe({ type: 'long-animation-frame', buffered: true });
+    } else if (supportedEntryTypes.includes('longtask')) {
+      po.observe({ type: 'longtask', buffered: true });
+    }
+  } catch {
+    /* Should collect error logs*/
+  }
+
+  return po.disconnect.bind(po);
+};
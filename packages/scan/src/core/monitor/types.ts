@@ -108,3 +108,20 @@ export interface PerformanceInteraction {
   timeOrigin: number;
   referrer: string;
 }
+
+export interface PerformanceLongFrameScript {
+  invoker: string;
+  invokerType: string;
+  sourceURL: string;
+  sourceFunctionName: string;
+  duration: number;
+}
+
+// union of long-animation-frame and longtask entries, scripts only exists on the former
+export interface PerformanceLongFrameEntry extends PerformanceEntry {
+  entryType: 'long-animation-frame' | 'longtask';
+  startTime: number;
+  duration: number;
+  blockingDuration?: number;
+  scripts?: Array<PerformanceLongFrameScript>;
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { installRDTHook } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import { ReactScanInternals } from '~core/index';
+import { createInstrumentation } from '~core/instrumentation';
+import { startRecording, stopRecording } from '~core/recording';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+ReactScanInternals.instrumentation = createInstrumentation('react-scan-test', {
+  onCommitStart() {},
+  isValidFiber: () => false,
+  onRender() {},
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: false,
+});
+
+describe('recording', () => {
+  it('records the commits of a real tree and the changes behind them', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    let setCount: (count: number) => void = () => {};
+    const Label = ({ count }: { count: number }) =>
+      createElement('span', null, count);
+    const Counter = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(Label, { count });
+    };
+
+    startRecording();
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Counter)));
+    flushSync(() => setCount(1));
+    const trace = stopRecording();
+    root.unmount();
+
+    expect(trace?.commits).toHaveLength(2);
+    const [mount, update] = trace?.commits ?? [];
+    expect(mount.renders.map((render) => render.phase)).toEqual([
+      'mount',
+      'mount',
+    ]);
+
+    const label = update.renders.find(
+      (render) => render.componentName === 'Label',
+    );
+    expect(label?.phase).toBe('update');
+    expect(label?.changes).toEqual([
+      { type: 'props', name: 'count', value: '1' },
+    ]);
+    expect(label?.parentFiberId).toBe(
+      update.renders.find((render) => render.componentName === 'Counter')
+        ?.fiberId,
+    );
+  });
+});
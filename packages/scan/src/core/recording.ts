@@ -0,0 +1,226 @@
+import { type Fiber, getFiberId, getTimings } from 'bippy';
+import { RenderPhase } from '~web/utils/outline';
+import { type Change, ReactScanInternals } from './index';
+import {
+  ChangeReason,
+  type Render,
+  createInstrumentation,
+  fastSerialize,
+} from './instrumentation';
+import { type LaneClass, getCommitLane } from './lanes';
+import { type SuspenseFallback, getCommitSuspenseFallbacks } from './suspense';
+
+export type RecordedRenderPhase = 'mount' | 'update' | 'unmount';
+
+export type RecordedChangeType = 'props' | 'state' | 'context';
+
+export interface RecordedChange {
+  type: RecordedChangeType;
+  name: string;
+  // values are serialized with fastSerialize so the trace stays plain JSON
+  value: string;
+}
+
+export interface RecordedRender {
+  fiberId: number;
+  // nearest ancestor that rendered in the same commit
+  parentFiberId: number | null;
+  componentName: string | null;
+  key: string | null;
+  phase: RecordedRenderPhase;
+  changes: Array<RecordedChange>;
+  selfTime: number;
+  totalTime: number;
+  // performance.now() based, null when react is not built with profiling timers
+  startTime: number | null;
+  didCommit: boolean;
+  forget: boolean;
+  unnecessary: boolean | null;
+  fps: number;
+}
+
+export interface RecordedCommit {
+  index: number;
+  // performance.now() based
+  startTime: number;
+  endTime: number;
+  // Date.now() based
+  timestamp: number;
+  // null when react left no lanes to compare
+  lane: LaneClass | null;
+  renders: Array<RecordedRender>;
+  // boundaries that revealed their content again in the commit
+  suspense: Array<SuspenseFallback>;
+}
+
+export interface RenderTrace {
+  version: 1;
+  timeOrigin: number;
+  startTime: number;
+  endTime: number;
+  commits: Array<RecordedCommit>;
+}
+
+interface RecordingSession {
+  startTime: number;
+  commits: Array<RecordedCommit>;
+  currentCommit: RecordedCommit | null;
+  currentCommitFiberIds: Set<number>;
+}
+
+let session: RecordingSession | null = null;
+let isInstrumented = false;
+
+const getRecordedPhase = (phase: RenderPhase): RecordedRenderPhase => {
+  switch (phase) {
+    case RenderPhase.Mount:
+      return 'mount';
+    case RenderPhase.Unmount:
+      return 'unmount';
+    default:
+      return 'update';
+  }
+};
+
+const getRecordedChangeType = (change: Change): RecordedChangeType => {
+  switch (change.type) {
+    case ChangeReason.Props:
+      return 'props';
+    case ChangeReason.Context:
+      return 'context';
+    default:
+      return 'state';
+  }
+};
+
+// fibers are traversed parent first, so any rendered ancestor is already known
+const getParentFiberId = (fiber: Fiber, renderedFiberIds: Set<number>) => {
+  let parent = fiber.return;
+  while (parent) {
+    const parentId = getFiberId(parent);
+    if (renderedFiberIds.has(parentId)) {
+      return parentId;
+    }
+    parent = parent.return;
+  }
+  return null;
+};
+
+const toRecordedRender = (
+  fiber: Fiber,
+  render: Render,
+  renderedFiberIds: Set<number>,
+): RecordedRender => {
+  const { selfTime, totalTime } = getTimings(fiber);
+  const changes: Array<RecordedChange> = [];
+  for (const change of render.changes) {
+    changes.push({
+      type: getRecordedChangeType(change),
+      name: String(change.name),
+      value: fastSerialize(change.value),
+    });
+  }
+
+  return {
+    fiberId: getFiberId(fiber),
+    parentFiberId: getParentFiberId(fiber, renderedFiberIds),
+    componentName: render.componentName,
+    key: fiber.key ?? null,
+    phase: getRecordedPhase(render.phase),
+    changes,
+    selfTime,
+    totalTime,
+    startTime:
+      typeof fiber.actualStartTime === 'number' && fiber.actualStartTime >= 0
+        ? fiber.actualStartTime
+        : null,
+    didCommit: render.didCommit,
+    forget: render.forget,
+    unnecessary: render.unnecessary,
+    fps: render.fps,
+  };
+};
+
+const initRecordingInstrumentation = () => {
+  if (isInstrumented) return;
+  isInstrumented = true;
+
+  createInstrumentation('react-scan-recording', {
+    onCommitStart() {
+      if (!session) return;
+      session.currentCommit = {
+        index: session.commits.length,
+        startTime: performance.now(),
+        endTime: 0,
+        timestamp: Date.now(),
+        lane: null,
+        renders: [],
+        suspense: [],
+      };
+      session.currentCommitFiberIds.clear();
+    },
+    isValidFiber() {
+      return session !== null;
+    },
+    onRender(fiber, renders) {
+      if (!session?.currentCommit) return;
+      const { currentCommit, currentCommitFiberIds } = session;
+      for (const render of renders) {
+        currentCommit.renders.push(
+          toRecordedRender(fiber, render, currentCommitFiberIds),
+        );
+      }
+      currentCommitFiberIds.add(getFiberId(fiber));
+    },
+    onCommitFinish() {
+      if (!session?.currentCommit) return;
+      const commit = session.currentCommit;
+      session.currentCommit = null;
+      commit.suspense = getCommitSuspenseFallbacks();
+      if (!commit.renders.length && !commit.suspense.length) return;
+      // known once every fiber was seen, a deferred value can change it
+      commit.lane = getCommitLane();
+      commit.endTime = performance.now();
+      session.commits.push(commit);
+    },
+    onError() {},
+    onPostCommitFiberRoot() {},
+    trackChanges: true,
+  });
+};
+
+export const isRecording = () => session !== null;
+
+export const startRecording = () => {
+  if (!ReactScanInternals.instrumentation) {
+    // biome-ignore lint/suspicious/noConsole: Intended debug output
+    console.warn(
+      '[React Scan] startRecording() must be called after React Scan has started',
+    );
+    return;
+  }
+
+  initRecordingInstrumentation();
+
+  session = {
+    startTime: performance.now(),
+    commits: [],
+    currentCommit: null,
+    currentCommitFiberIds: new Set(),
+  };
+};
+
+export const stopRecording = (): RenderTrace | null => {
+  if (!session) return null;
+
+  const trace: RenderTrace = {
+    version: 1,
+    timeOrigin: performance.timeOrigin,
+    startTime: session.startTime,
+    endTime: performance.now(),
+    commits: session.commits,
+  };
+  session = null;
+
+  return trace;
+};
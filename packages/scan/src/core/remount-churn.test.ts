@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { type Fiber, getDisplayName, installRDTHook } from 'bippy';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createInstrumentation } from '~core/instrumentation';
+import { describeRemountChurn } from '~core/remount-churn';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+// whether each mount of the latest commit was flagged, by component name
+const remounted = new Map<string, boolean>();
+
+createInstrumentation('react-scan-remount-churn-test', {
+  onCommitStart() {
+    remounted.clear();
+  },
+  isValidFiber: () => true,
+  onRender(fiber: Fiber, [render]) {
+    const name = getDisplayName(fiber.type);
+    if (name && render.remounted) remounted.set(name, true);
+  },
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: false,
+});
+
+let React: typeof import('react');
+let flushSync: typeof import('react-dom').flushSync;
+let createRoot: typeof import('react-dom/client').createRoot;
+
+beforeAll(async () => {
+  React = await import('react');
+  ({ flushSync } = await import('react-dom'));
+  ({ createRoot } = await import('react-dom/client'));
+});
+
+describe('remount churn', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('flags an element whose key changes in consecutive commits', () => {
+    const { createElement } = React;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const Row = () => createElement('li');
+    const List = ({ rowKey }: { rowKey: string }) =>
+      createElement('ul', null, createElement(Row, { key: rowKey }));
+
+    const root = createRoot(document.createElement('div'));
+    for (const rowKey of ['a', 'b', 'c']) {
+      flushSync(() => root.render(createElement(List, { rowKey })));
+    }
+    expect(warn).not.toHaveBeenCalled();
+    flushSync(() => root.render(createElement(List, { rowKey: 'd' })));
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Row in List');
+    expect(warn.mock.calls[0][0]).toContain('"b" → "c" → "d"');
+
+    // mounts are flagged once the position was found churning
+    flushSync(() => root.render(createElement(List, { rowKey: 'e' })));
+    expect(remounted.get('Row')).toBe(true);
+    root.unmount();
+  });
+
+  it('flags a component that is recreated on every render', () => {
+    const { createElement, useState } = React;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let setCount: (count: number) => void = () => {};
+    const Page = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      const Field = () => createElement('input', { value: count });
+      return createElement('form', null, createElement(Field));
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Page)));
+    for (let count = 1; count <= 4; count++) {
+      flushSync(() => setCount(count));
+    }
+
+    expect(remounted.get('Field')).toBe(true);
+    expect(warn.mock.calls[0][0]).toContain('recreated on every render');
+    root.unmount();
+  });
+
+  it('ignores mounts without an unmount of the same component', () => {
+    const { createElement, useState } = React;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let setRows: (rows: Array<number>) => void = () => {};
+    const Item = () => createElement('li');
+    const Feed = () => {
+      const [rows, _setRows] = useState([0]);
+      setRows = _setRows;
+      return createElement(
+        'ul',
+        null,
+        rows.map((id) => createElement(Item, { key: id })),
+      );
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Feed)));
+    for (let length = 2; length <= 5; length++) {
+      flushSync(() => setRows(Array.from({ length }, (_, id) => id)));
+    }
+    root.unmount();
+
+    expect(remounted.has('Item')).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('describes components that are recreated on every render', () => {
+    expect(
+      describeRemountChurn({
+        componentName: 'Row',
+        parentName: 'List',
+        remounts: 3,
+        keys: [null, null, null],
+        isTypeRecreated: true,
+      }),
+    ).toContain('recreated on every render of List');
+  });
+});
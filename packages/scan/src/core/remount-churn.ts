@@ -0,0 +1,160 @@
+import { type Fiber, getDisplayName, getFiberId } from 'bippy';
+import { getPropOwner } from './unstable-props';
+
+// a component that remounts in this many commits within the window is churning
+const CHURN_THRESHOLD = 3;
+const CHURN_WINDOW_MS = 1000;
+const MAX_RECENT_KEYS = 3;
+
+export interface RemountChurn {
+  componentName: string;
+  // the component that renders the remounting element, and with it the key
+  parentName: string | null;
+  // commits in the window in which the component remounted
+  remounts: number;
+  // latest keys, oldest first
+  keys: Array<string | null>;
+  // the component type was a new function with the same name
+  isTypeRecreated: boolean;
+}
+
+interface RemountPosition extends RemountChurn {
+  timestamps: Array<number>;
+  lastCommit: number;
+  lastType: unknown;
+  isChurning: boolean;
+}
+
+interface CommitMount {
+  fiber: Fiber;
+  componentName: string;
+}
+
+// keyed by the parent fiber and the component name, types recreated on every
+// render and elements with a new key still land on the same position
+const positions = new Map<string, RemountPosition>();
+const warnedPositions = new Set<string>();
+
+let commitMounts: Array<CommitMount> = [];
+const commitUnmounts = new Set<string>();
+let commitIndex = 0;
+
+const getPositionKey = (fiber: Fiber, componentName: string) =>
+  fiber.return ? `${getFiberId(fiber.return)}:${componentName}` : null;
+
+// react reports deleted fibers before the commit, so this runs once the
+// commit was checked, and for commits that aren't traversed
+export const resetCommitRemounts = () => {
+  commitMounts = [];
+  commitUnmounts.clear();
+  commitIndex++;
+};
+
+export const recordRemountMount = (
+  fiber: Fiber,
+  componentName: string | null,
+) => {
+  if (!componentName) return;
+  commitMounts.push({ fiber, componentName });
+};
+
+// the parent of a deleted fiber is already detached, only the name is left to match
+export const recordRemountUnmount = (componentName: string | null) => {
+  if (!componentName) return;
+  commitUnmounts.add(componentName);
+};
+
+/**
+ * Whether the position the fiber mounts at has been remounting in the latest commits
+ */
+export const isRemountChurn = (fiber: Fiber, componentName: string | null) => {
+  if (!componentName) return false;
+  const positionKey = getPositionKey(fiber, componentName);
+  return !!positionKey && !!positions.get(positionKey)?.isChurning;
+};
+
+const formatKey = (key: string | null) =>
+  key === null ? 'no key' : JSON.stringify(key);
+
+export const describeRemountChurn = (churn: RemountChurn) => {
+  const { parentName, keys, isTypeRecreated } = churn;
+  if (isTypeRecreated) {
+    return `the component is recreated on every render${parentName ? ` of ${parentName}` : ''}, define it outside of other components`;
+  }
+  if (new Set(keys).size > 1) {
+    return `its key changes on every render (${keys.map(formatKey).join(' → ')}), use a stable key like an id from the data`;
+  }
+  return 'it unmounts and mounts again in the same commit';
+};
+
+const warnRemountChurn = (positionKey: string, churn: RemountChurn) => {
+  if (warnedPositions.has(positionKey)) return;
+  warnedPositions.add(positionKey);
+
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.warn(
+    `[React Scan] ${churn.componentName}${churn.parentName ? ` in ${churn.parentName}` : ''} remounted in ${churn.remounts} commits within ${CHURN_WINDOW_MS}ms, ${describeRemountChurn(churn)}`,
+  );
+};
+
+/**
+ * Pairs the mounts of the commit with unmounts of the same component, should
+ * run once every fiber of the commit was traversed, resets the commit after
+ */
+export const checkRemountChurn = () => {
+  const now = performance.now();
+
+  for (const { fiber, componentName } of commitMounts) {
+    if (!commitUnmounts.has(componentName)) continue;
+    const positionKey = getPositionKey(fiber, componentName);
+    if (!positionKey) continue;
+
+    let position = positions.get(positionKey);
+    if (!position) {
+      const owner = getPropOwner(fiber);
+      position = {
+        componentName,
+        parentName: owner ? getDisplayName(owner.type) : null,
+        remounts: 0,
+        keys: [],
+        isTypeRecreated: false,
+        timestamps: [],
+        lastCommit: -1,
+        lastType: fiber.type,
+        isChurning: false,
+      };
+      positions.set(positionKey, position);
+    }
+
+    // a list that remounts all of its rows at once counts as a single remount
+    if (position.lastCommit === commitIndex) continue;
+    position.lastCommit = commitIndex;
+    position.timestamps.push(now);
+
+    if (position.lastType !== fiber.type) {
+      position.isTypeRecreated = true;
+      position.lastType = fiber.type;
+    }
+    position.keys.push(fiber.key);
+    if (position.keys.length > MAX_RECENT_KEYS) {
+      position.keys.shift();
+    }
+  }
+
+  for (const [positionKey, position] of positions) {
+    position.timestamps = position.timestamps.filter(
+      (timestamp) => now - timestamp <= CHURN_WINDOW_MS,
+    );
+    if (!position.timestamps.length) {
+      positions.delete(positionKey);
+      continue;
+    }
+    position.remounts = position.timestamps.length;
+    position.isChurning = position.remounts >= CHURN_THRESHOLD;
+    if (position.isChurning) {
+      warnRemountChurn(positionKey, position);
+    }
+  }
+
+  resetCommitRemounts();
+};
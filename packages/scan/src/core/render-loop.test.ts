@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { signal } from '@preact/signals';
+import { type Fiber, type FiberRoot, getFiberId } from 'bippy';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReactScanInternals } from '~core/index';
+import {
+  recordLoopRender,
+  resumeAfterRenderLoop,
+  signalRenderLoop,
+  startRenderLoopCommit,
+} from '~core/render-loop';
+
+const FunctionComponentTag = 0;
+const HostComponentTag = 5;
+
+// bippy hands out id 0 first but doesn't treat it as assigned
+getFiberId({ tag: HostComponentTag, type: 'div' } as unknown as Fiber);
+
+const createStateHook = (value: number) => ({
+  memoizedState: value,
+  queue: {},
+  next: null,
+});
+
+// a component whose state hook went from 0 to 1
+const createStatefulFiber = () =>
+  ({
+    tag: FunctionComponentTag,
+    memoizedState: createStateHook(1),
+    alternate: { tag: FunctionComponentTag, memoizedState: createStateHook(0) },
+  }) as unknown as Fiber;
+
+// re-renders only because its parent does
+const createStatelessFiber = () =>
+  ({
+    tag: FunctionComponentTag,
+    memoizedState: null,
+    alternate: null,
+  }) as unknown as Fiber;
+
+let now = 0;
+
+// renders the fibers once per commit, frameMs apart
+const commit = (fibers: Array<Fiber>, count: number, frameMs: number) => {
+  for (let i = 0; i < count; i++) {
+    now += frameMs;
+    startRenderLoopCommit();
+    for (const fiber of fibers) {
+      recordLoopRender(fiber, fiber.memoizedState ? 'Parent' : 'Child');
+    }
+  }
+};
+
+describe('render loops', () => {
+  beforeEach(() => {
+    ReactScanInternals.instrumentation = {
+      isPaused: signal(false),
+      fiberRoots: new WeakSet<FiberRoot>(),
+    };
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resumeAfterRenderLoop();
+    // start every test with a fresh window
+    now += 10_000;
+    vi.restoreAllMocks();
+  });
+
+  it('pauses once a component renders more than 300 times within a second', () => {
+    const fiber = createStatefulFiber();
+    commit([fiber], 300, 1);
+    expect(signalRenderLoop.value).toBeNull();
+
+    commit([fiber], 1, 1);
+    expect(signalRenderLoop.value).toMatchObject({
+      fiber,
+      componentName: 'Parent',
+      reason: 'renders-per-window',
+      renders: 301,
+      stateChanges: [{ name: '0', prevValue: 0, value: 1 }],
+    });
+    expect(ReactScanInternals.instrumentation?.isPaused.value).toBe(true);
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('waits for the component whose state changes', () => {
+    const parent = createStatefulFiber();
+    const child = createStatelessFiber();
+    commit([child, parent], 301, 1);
+    // the child tripped the detector first, the parent is reported
+    expect(signalRenderLoop.value?.fiber).toBe(parent);
+  });
+
+  it('reports a stateless loop once it kept going for twice the limit', () => {
+    const child = createStatelessFiber();
+    commit([child], 600, 1);
+    expect(signalRenderLoop.value).toBeNull();
+
+    commit([child], 1, 1);
+    expect(signalRenderLoop.value).toMatchObject({
+      fiber: child,
+      reason: 'renders-per-window',
+      stateChanges: [],
+    });
+  });
+
+  it('resets the streak of consecutive commits on user input', () => {
+    const fiber = createStatefulFiber();
+    // one render per frame stays below the per window limit
+    commit([fiber], 400, 16);
+    window.dispatchEvent(new Event('pointerdown'));
+    commit([fiber], 400, 16);
+    expect(signalRenderLoop.value).toBeNull();
+
+    commit([fiber], 201, 16);
+    expect(signalRenderLoop.value).toMatchObject({
+      reason: 'consecutive-commits',
+      renders: 601,
+    });
+  });
+
+  it('leaves animations at the frame rate of fast displays alone', () => {
+    const fiber = createStatefulFiber();
+    // two seconds at 240Hz
+    commit([fiber], 480, 1000 / 240);
+    expect(signalRenderLoop.value).toBeNull();
+  });
+
+  it('resets the window on user input', () => {
+    const fiber = createStatefulFiber();
+    // dragging renders on every pointermove
+    for (let i = 0; i < 400; i++) {
+      window.dispatchEvent(new Event('pointermove'));
+      commit([fiber], 1, 1);
+    }
+    expect(signalRenderLoop.value).toBeNull();
+  });
+
+  it('unpauses when resumed', () => {
+    commit([createStatefulFiber()], 301, 1);
+    expect(ReactScanInternals.instrumentation?.isPaused.value).toBe(true);
+
+    resumeAfterRenderLoop();
+    expect(signalRenderLoop.value).toBeNull();
+    expect(ReactScanInternals.instrumentation?.isPaused.value).toBe(false);
+
+    // a loop found while paused isn't reported again
+    ReactScanInternals.instrumentation = {
+      isPaused: signal(true),
+      fiberRoots: new WeakSet<FiberRoot>(),
+    };
+    commit([createStatefulFiber()], 301, 1);
+    expect(signalRenderLoop.value).toBeNull();
+  });
+});
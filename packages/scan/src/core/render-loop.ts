@@ -0,0 +1,205 @@
+import { signal } from '@preact/signals';
+import { type Fiber, getFiberId } from 'bippy';
+import { ReactScanInternals, type StateChange } from './index';
+import { getStateChanges } from './instrumentation';
+
+// more renders than this within the window without any user input, more
+// frames than a 240Hz display paints
+const MAX_RENDERS_PER_WINDOW = 300;
+const RENDER_WINDOW_MS = 1000;
+// a state driven animation renders every frame too, so only a long streak
+// without any user input counts as a loop
+const MAX_CONSECUTIVE_COMMITS = 600;
+
+export interface RenderLoop {
+  fiber: Fiber;
+  componentName: string;
+  reason: 'renders-per-window' | 'consecutive-commits';
+  renders: number;
+  // the state hooks that changed in the render that tripped the detector
+  stateChanges: Array<StateChange>;
+}
+
+interface LoopTracking {
+  windowStart: number;
+  windowRenders: number;
+  lastCommit: number;
+  inputEpoch: number;
+  streak: number;
+}
+
+export const signalRenderLoop = signal<RenderLoop | null>(null);
+
+// keyed by fiber id, so both sides of the alternate pair count together
+const trackedFibers = new Map<number, LoopTracking>();
+let commitIndex = 0;
+let inputEpoch = 0;
+let lastPrune = 0;
+let isListening = false;
+
+// a drag or a scroll renders on every event
+const INPUT_EVENTS = [
+  'pointerdown',
+  'pointermove',
+  'keydown',
+  'wheel',
+  'scroll',
+  'input',
+] as const;
+
+const onUserInput = () => {
+  inputEpoch++;
+};
+
+const listenToUserInput = () => {
+  if (isListening || typeof window === 'undefined') return;
+  isListening = true;
+  for (const type of INPUT_EVENTS) {
+    window.addEventListener(type, onUserInput, {
+      capture: true,
+      passive: true,
+    });
+  }
+};
+
+export const startRenderLoopCommit = () => {
+  listenToUserInput();
+  commitIndex++;
+
+  const now = performance.now();
+  if (now - lastPrune < RENDER_WINDOW_MS) return;
+  lastPrune = now;
+  for (const [id, tracking] of trackedFibers) {
+    if (
+      tracking.lastCommit < commitIndex - 1 &&
+      now - tracking.windowStart > RENDER_WINDOW_MS
+    ) {
+      trackedFibers.delete(id);
+    }
+  }
+};
+
+const formatStateChange = (change: StateChange) =>
+  change.name === 'state' ? 'state' : `state hook #${change.name}`;
+
+const reportRenderLoop = (renderLoop: RenderLoop) => {
+  const { componentName, reason, renders, stateChanges } = renderLoop;
+  const description =
+    reason === 'renders-per-window'
+      ? `rendered ${renders} times within ${RENDER_WINDOW_MS}ms without any user input`
+      : `rendered in ${renders} consecutive commits without any user input`;
+
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.warn(
+    `[React Scan] ${componentName} ${description}, it's likely stuck in a render loop. Outlines are paused until you resume them from the toolbar`,
+    ...(stateChanges.length
+      ? stateChanges.map((change) => ({
+          hook: formatStateChange(change),
+          prevValue: change.prevValue,
+          value: change.value,
+        }))
+      : ['no state changed, look for a parent or a store that keeps updating']),
+  );
+};
+
+const pauseForRenderLoop = (renderLoop: RenderLoop) => {
+  trackedFibers.clear();
+  signalRenderLoop.value = renderLoop;
+  reportRenderLoop(renderLoop);
+
+  const instrumentation = ReactScanInternals.instrumentation;
+  if (instrumentation) {
+    // not saved to the options, the loop is specific to this page load
+    instrumentation.isPaused.value = true;
+  }
+};
+
+/**
+ * Counts a re-render of the fiber, pausing the outlines once the fiber renders
+ * more often than a healthy component would
+ */
+export const recordLoopRender = (
+  fiber: Fiber,
+  componentName: string | null,
+) => {
+  // the inspector keeps commits flowing while paused, don't report the same loop again
+  if (!componentName || ReactScanInternals.instrumentation?.isPaused.value) {
+    return;
+  }
+
+  const now = performance.now();
+  const id = getFiberId(fiber);
+  let tracking = trackedFibers.get(id);
+  if (!tracking) {
+    tracking = {
+      windowStart: now,
+      windowRenders: 0,
+      lastCommit: -1,
+      inputEpoch,
+      streak: 0,
+    };
+    trackedFibers.set(id, tracking);
+  }
+
+  if (
+    now - tracking.windowStart > RENDER_WINDOW_MS ||
+    tracking.inputEpoch !== inputEpoch
+  ) {
+    tracking.windowStart = now;
+    tracking.windowRenders = 0;
+  }
+  tracking.windowRenders++;
+
+  if (
+    tracking.lastCommit === commitIndex - 1 &&
+    tracking.inputEpoch === inputEpoch
+  ) {
+    tracking.streak++;
+  } else {
+    tracking.streak = 1;
+  }
+  tracking.lastCommit = commitIndex;
+  tracking.inputEpoch = inputEpoch;
+
+  let reason: RenderLoop['reason'] | null = null;
+  let renders = 0;
+  if (tracking.windowRenders > MAX_RENDERS_PER_WINDOW) {
+    reason = 'renders-per-window';
+    renders = tracking.windowRenders;
+  } else if (tracking.streak > MAX_CONSECUTIVE_COMMITS) {
+    reason = 'consecutive-commits';
+    renders = tracking.streak;
+  }
+  if (!reason) return;
+
+  // children of the looping component re-render just as often, wait for the
+  // one whose state changes unless nothing in the loop has state
+  const stateChanges = getStateChanges(fiber);
+  if (
+    !stateChanges.length &&
+    tracking.windowRenders <= MAX_RENDERS_PER_WINDOW * 2 &&
+    tracking.streak <= MAX_CONSECUTIVE_COMMITS * 2
+  ) {
+    return;
+  }
+
+  pauseForRenderLoop({
+    fiber,
+    componentName,
+    reason,
+    renders,
+    stateChanges,
+  });
+};
+
+export const resumeAfterRenderLoop = () => {
+  signalRenderLoop.value = null;
+  const instrumentation = ReactScanInternals.instrumentation;
+  if (instrumentation) {
+    instrumentation.isPaused.value = false;
+  }
+};
+
+export const dismissRenderLoop = () => {
+  signalRenderLoop.value = null;
+};
@@ -0,0 +1,96 @@
+import { type Fiber, getFiberId } from 'bippy';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  describeSuspenseFallback,
+  getCommitSuspenseFallbacks,
+  recordSuspenseRender,
+  startSuspenseCommit,
+} from '~core/suspense';
+
+const FunctionComponentTag = 0;
+const HostComponentTag = 5;
+const SuspenseComponentTag = 13;
+
+const ProductPage = () => null;
+const Chart = () => null;
+
+// bippy hands out id 0 first but doesn't treat it as assigned
+getFiberId({ tag: HostComponentTag, type: 'div' } as unknown as Fiber);
+
+const createLazy = () => ({
+  $$typeof: Symbol.for('react.lazy'),
+  // pending on the import
+  _payload: { _status: 0, _result: Promise.resolve() as unknown },
+});
+
+const createBoundary = (children: unknown) => {
+  const page = { tag: FunctionComponentTag, type: ProductPage, return: null };
+  return {
+    tag: SuspenseComponentTag,
+    return: page,
+    child: null,
+    alternate: null,
+    memoizedProps: { children },
+    memoizedState: null,
+  } as unknown as Fiber;
+};
+
+const commitBoundary = (
+  fiber: Fiber,
+  phase: 'mount' | 'update',
+  showsFallback: boolean,
+) => {
+  // react's SuspenseState, null once the content shows
+  const state: unknown = showsFallback ? { dehydrated: null } : null;
+  fiber.memoizedState = state as Fiber['memoizedState'];
+  startSuspenseCommit();
+  recordSuspenseRender(fiber, phase);
+  return getCommitSuspenseFallbacks();
+};
+
+describe('suspense fallbacks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('times the fallback and names the lazy component once it resolved', () => {
+    const now = vi.spyOn(performance, 'now').mockReturnValue(100);
+    const lazy = createLazy();
+    const boundary = createBoundary({ type: lazy, props: {} });
+
+    expect(commitBoundary(boundary, 'mount', true)).toEqual([]);
+
+    lazy._payload = { _status: 1, _result: { default: Chart } };
+    now.mockReturnValue(420);
+    const [fallback] = commitBoundary(boundary, 'update', false);
+
+    expect(fallback).toEqual({
+      boundary: 'ProductPage',
+      startTime: 100,
+      duration: 320,
+      cause: { kind: 'lazy', componentName: 'Chart' },
+    });
+    expect(describeSuspenseFallback(fallback)).toBe(
+      '<Suspense> in ProductPage showed its fallback for 320ms, waiting on lazy(Chart)',
+    );
+  });
+
+  it('attributes other fallbacks to a thrown promise', () => {
+    const boundary = createBoundary(null);
+    commitBoundary(boundary, 'update', true);
+    // still waiting, nothing to report yet
+    expect(commitBoundary(boundary, 'update', true)).toEqual([]);
+
+    const [fallback] = commitBoundary(boundary, 'update', false);
+    expect(fallback.cause).toEqual({ kind: 'promise' });
+  });
+
+  it('drops the fallback of an unmounted boundary', () => {
+    const boundary = createBoundary(null);
+    commitBoundary(boundary, 'mount', true);
+    startSuspenseCommit();
+    recordSuspenseRender(boundary, 'unmount');
+
+    expect(commitBoundary(boundary, 'mount', false)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  type Fiber,
+  SuspenseComponentTag,
+  getDisplayName,
+  getFiberId,
+  isCompositeFiber,
+  traverseFiber,
+} from 'bippy';
+
+export type SuspenseCause =
+  // null when the lazy component never resolved
+  | { kind: 'lazy'; componentName: string | null }
+  // a component threw a promise, which one isn't left in the tree
+  | { kind: 'promise' };
+
+export interface SuspenseFallback {
+  // the nearest component above the boundary, boundaries have no name
+  boundary: string | null;
+  // performance.now() based
+  startTime: number;
+  duration: number;
+  cause: SuspenseCause;
+}
+
+interface LazyPayload {
+  _status: number;
+  _result: unknown;
+}
+
+interface LazyType {
+  _payload: LazyPayload;
+}
+
+interface ShownFallback {
+  boundary: string | null;
+  startTime: number;
+  lazy: LazyType | null;
+}
+
+const LAZY_SYMBOL = Symbol.for('react.lazy');
+// react's lazy status
+const LazyResolved = 1;
+// elements nested deeper than this are rendered by other components anyway
+const MAX_ELEMENT_DEPTH = 20;
+
+// keyed by fiber id, so both sides of the alternate pair count together
+const shownFallbacks = new Map<number, ShownFallback>();
+let commitFallbacks: Array<SuspenseFallback> = [];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object';
+
+const isPendingLazy = (type: unknown): type is LazyType =>
+  isRecord(type) &&
+  type.$$typeof === LAZY_SYMBOL &&
+  isRecord(type._payload) &&
+  type._payload._status !== LazyResolved;
+
+// dehydrated boundaries keep server html, not a fallback
+const isShowingFallback = (fiber: Fiber) =>
+  fiber.memoizedState !== null && !fiber.memoizedState.dehydrated;
+
+const getBoundaryName = (fiber: Fiber) => {
+  let parent = fiber.return;
+  while (parent) {
+    if (isCompositeFiber(parent)) {
+      return getDisplayName(parent.type);
+    }
+    parent = parent.return;
+  }
+  return null;
+};
+
+const findLazyElement = (node: unknown, depth = 0): LazyType | null => {
+  if (depth > MAX_ELEMENT_DEPTH) return null;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const lazy = findLazyElement(child, depth + 1);
+      if (lazy) return lazy;
+    }
+    return null;
+  }
+  if (!isRecord(node) || !isRecord(node.props)) return null;
+  if (isPendingLazy(node.type)) return node.type;
+  return findLazyElement(node.props.children, depth + 1);
+};
+
+/**
+ * The suspended lazy component, either among the elements the boundary
+ * renders or in its hidden primary tree. Lazy components deeper down are
+ * only found once a render of theirs made it into the tree
+ */
+const findSuspendedLazy = (fiber: Fiber) => {
+  const lazy = findLazyElement(fiber.memoizedProps?.children);
+  if (lazy) return lazy;
+
+  // the first child holds the primary tree, the fallback is its sibling
+  const lazyFiber = traverseFiber(fiber.child, (child) =>
+    isPendingLazy(child.elementType),
+  );
+  return lazyFiber ? (lazyFiber.elementType as LazyType) : null;
+};
+
+// the module resolves after the fallback showed, its default export names it
+const getLazyComponentName = ({ _payload }: LazyType) => {
+  if (_payload._status !== LazyResolved) return null;
+  const result = _payload._result;
+  return getDisplayName(
+    isRecord(result) && 'default' in result ? result.default : result,
+  );
+};
+
+export const startSuspenseCommit = () => {
+  commitFallbacks = [];
+};
+
+/**
+ * Times how long a boundary shows its fallback, from the commit that shows it
+ * to the one that reveals its content again
+ */
+export const recordSuspenseRender = (
+  fiber: Fiber,
+  phase: 'mount' | 'update' | 'unmount',
+) => {
+  if (fiber.tag !== SuspenseComponentTag) return;
+  const id = getFiberId(fiber);
+  const shown = shownFallbacks.get(id);
+
+  if (phase === 'unmount') {
+    shownFallbacks.delete(id);
+    return;
+  }
+
+  if (isShowingFallback(fiber)) {
+    if (!shown) {
+      shownFallbacks.set(id, {
+        boundary: getBoundaryName(fiber),
+        startTime: performance.now(),
+        lazy: findSuspendedLazy(fiber),
+      });
+    }
+    return;
+  }
+
+  if (!shown) return;
+  shownFallbacks.delete(id);
+  commitFallbacks.push({
+    boundary: shown.boundary,
+    startTime: shown.startTime,
+    duration: performance.now() - shown.startTime,
+    cause: shown.lazy
+      ? { kind: 'lazy', componentName: getLazyComponentName(shown.lazy) }
+      : { kind: 'promise' },
+  });
+};
+
+/**
+ * The fallbacks hidden again in the current commit
+ */
+export const getCommitSuspenseFallbacks = () => commitFallbacks;
+
+export const describeSuspenseCause = (cause: SuspenseCause) => {
+  if (cause.kind === 'promise') return 'a thrown promise';
+  return cause.componentName
+    ? `lazy(${cause.componentName})`
+    : 'a lazy component';
+};
+
+export const describeSuspenseFallback = ({
+  boundary,
+  duration,
+  cause,
+}: SuspenseFallback) =>
+  `<Suspense>${boundary ? ` in ${boundary}` : ''} showed its fallback for ${Math.round(duration)}ms, waiting on ${describeSuspenseCause(cause)}`;
@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { trackRenders } from '~core/testing';
+
+describe('trackRenders', () => {
+  it('counts the renders of a real tree and the changes behind them', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    let setCount: (count: number) => void = () => {};
+    const Label = ({ count }: { count: number }) =>
+      createElement('span', null, count);
+    const Counter = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(Label, { count });
+    };
+
+    const tracker = trackRenders();
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Counter)));
+    flushSync(() => setCount(1));
+    flushSync(() => setCount(2));
+
+    expect(tracker.count(Counter)).toBe(3);
+    expect(tracker.count(Counter, 'mount')).toBe(1);
+    expect(tracker.count('Label', 'update')).toBe(2);
+    expect(tracker.renders(Label).at(-1)?.changes).toEqual([
+      { type: 'props', name: 'count', value: 2 },
+    ]);
+    expect(tracker.renders(Counter)[1].changes).toEqual([
+      expect.objectContaining({ type: 'state', value: 1 }),
+    ]);
+
+    tracker.reset();
+    expect(tracker.count(Counter)).toBe(0);
+
+    tracker.stop();
+    flushSync(() => setCount(3));
+    root.unmount();
+    expect(tracker.count(Counter)).toBe(0);
+  });
+});
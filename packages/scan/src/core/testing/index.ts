@@ -0,0 +1,141 @@
+import { type Fiber, getDisplayName, getType } from 'bippy';
+import { RenderPhase } from '~web/utils/outline';
+import { init } from '../../install-hook';
+import type { Change } from '../index';
+import {
+  ChangeReason,
+  type Render,
+  createInstrumentation,
+} from '../instrumentation';
+
+export type TrackedRenderPhase = 'mount' | 'update' | 'unmount';
+
+export interface TrackedChange {
+  type: 'props' | 'state' | 'context';
+  name: string;
+  value: unknown;
+}
+
+export interface TrackedRender {
+  componentName: string | null;
+  phase: TrackedRenderPhase;
+  changes: Array<TrackedChange>;
+  selfTime: number | null;
+}
+
+export interface RenderTracker {
+  /**
+   * Number of renders of a component since the tracker started or was reset,
+   * mounts included unless a phase is passed
+   */
+  count: (component: unknown, phase?: TrackedRenderPhase) => number;
+  /**
+   * Every render of a component with the props, state and context changes that caused it
+   */
+  renders: (component: unknown) => Array<TrackedRender>;
+  reset: () => void;
+  stop: () => void;
+}
+
+interface TrackedFiberRender extends TrackedRender {
+  type: unknown;
+}
+
+const trackers = new Set<Array<TrackedFiberRender>>();
+
+const getTrackedPhase = (render: Render): TrackedRenderPhase => {
+  switch (render.phase) {
+    case RenderPhase.Mount:
+      return 'mount';
+    case RenderPhase.Unmount:
+      return 'unmount';
+    default:
+      return 'update';
+  }
+};
+
+const getTrackedChange = (change: Change): TrackedChange => {
+  switch (change.type) {
+    case ChangeReason.Props:
+      return { type: 'props', name: change.name, value: change.value };
+    case ChangeReason.Context:
+      return { type: 'context', name: change.name, value: change.value };
+    default:
+      return { type: 'state', name: change.name, value: change.value };
+  }
+};
+
+// components are matched by reference (memo and forwardRef are unwrapped) or by display name
+const isComponent = (render: TrackedFiberRender, component: unknown) => {
+  if (typeof component === 'string') {
+    return render.componentName === component;
+  }
+  return render.type === getType(component);
+};
+
+// the devtools hook has to exist before react-dom loads, so importing this
+// entry (e.g. from a setup file) installs it and starts instrumenting
+init();
+
+createInstrumentation('react-scan-testing', {
+  onCommitStart() {},
+  isValidFiber() {
+    return trackers.size > 0;
+  },
+  onRender(fiber: Fiber, renders) {
+    const type = getType(fiber.type);
+    for (const render of renders) {
+      const trackedRender: TrackedFiberRender = {
+        type,
+        componentName: render.componentName ?? getDisplayName(type),
+        phase: getTrackedPhase(render),
+        changes: render.changes.map(getTrackedChange),
+        selfTime: render.time,
+      };
+      for (const tracked of trackers) {
+        tracked.push(trackedRender);
+      }
+    }
+  },
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: true,
+  forceAlwaysTrackRenders: true,
+});
+
+export const trackRenders = (): RenderTracker => {
+  const tracked: Array<TrackedFiberRender> = [];
+  trackers.add(tracked);
+
+  return {
+    count(component, phase) {
+      let count = 0;
+      for (const render of tracked) {
+        if (!isComponent(render, component)) continue;
+        if (phase && render.phase !== phase) continue;
+        count++;
+      }
+      return count;
+    },
+    renders(component) {
+      const result: Array<TrackedRender> = [];
+      for (const render of tracked) {
+        if (!isComponent(render, component)) continue;
+        result.push({
+          componentName: render.componentName,
+          phase: render.phase,
+          changes: render.changes,
+          selfTime: render.selfTime,
+        });
+      }
+      return result;
+    },
+    reset() {
+      tracked.length = 0;
+    },
+    stop() {
+      trackers.delete(tracked);
+    },
+  };
+};
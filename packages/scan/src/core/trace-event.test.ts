@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  RecordedCommit,
+  RecordedRender,
+  RenderTrace,
+} from '~core/recording';
+import { toTraceEvents } from '~core/trace-event';
+
+const createRender = (
+  render: Partial<RecordedRender> & Pick<RecordedRender, 'fiberId'>,
+): RecordedRender => ({
+  parentFiberId: null,
+  componentName: 'Component',
+  key: null,
+  phase: 'update',
+  changes: [],
+  selfTime: 1,
+  totalTime: 1,
+  startTime: null,
+  didCommit: true,
+  forget: false,
+  unnecessary: null,
+  fps: 60,
+  ...render,
+});
+
+const createTrace = (
+  renders: Array<RecordedRender>,
+  commit?: Partial<RecordedCommit>,
+): RenderTrace => ({
+  version: 1,
+  timeOrigin: 0,
+  startTime: 0,
+  endTime: 100,
+  commits: [
+    {
+      index: 0,
+      startTime: 10,
+      endTime: 12,
+      timestamp: 0,
+      lane: 'default',
+      renders,
+      suspense: [],
+      ...commit,
+    },
+  ],
+});
+
+const getRenderEvents = (trace: RenderTrace) =>
+  toTraceEvents(trace).traceEvents.filter(
+    (event) => event.ph === 'X' && event.tid === 1,
+  );
+
+describe('toTraceEvents', () => {
+  it('emits metadata and a commit event', () => {
+    const { traceEvents, displayTimeUnit } = toTraceEvents(createTrace([]));
+
+    expect(displayTimeUnit).toBe('ms');
+    expect(traceEvents.filter((event) => event.ph === 'M')).toHaveLength(4);
+
+    const commit = traceEvents.find(
+      (event) => event.ph === 'X' && event.tid === 2,
+    );
+    expect(commit).toMatchObject({
+      name: 'Commit #0',
+      ph: 'X',
+      ts: 10_000,
+      dur: 2_000,
+      args: { lane: 'default' },
+    });
+  });
+
+  it('spans suspense fallbacks from when they showed', () => {
+    const { traceEvents } = toTraceEvents(
+      createTrace([], {
+        suspense: [
+          {
+            boundary: 'ProductPage',
+            startTime: 4,
+            duration: 6,
+            cause: { kind: 'lazy', componentName: 'Chart' },
+          },
+        ],
+      }),
+    );
+
+    expect(
+      traceEvents.find((event) => event.tid === 3 && event.ph === 'X'),
+    ).toMatchObject({
+      name: 'Suspense in ProductPage',
+      ts: 4_000,
+      dur: 6_000,
+      args: { cause: 'lazy(Chart)' },
+    });
+  });
+
+  it('emits one complete event per render', () => {
+    const events = getRenderEvents(
+      createTrace([
+        createRender({ fiberId: 1, componentName: 'App' }),
+        createRender({ fiberId: 2, componentName: 'List' }),
+      ]),
+    );
+
+    expect(events.map((event) => event.name)).toEqual(['App', 'List']);
+    expect(events[0].args).toMatchObject({ fiberId: 1, phase: 'update' });
+  });
+
+  it('nests children inside their rendered ancestors', () => {
+    const events = getRenderEvents(
+      createTrace([
+        createRender({ fiberId: 1, totalTime: 1, startTime: 5 }),
+        createRender({ fiberId: 2, parentFiberId: 1, totalTime: 2 }),
+        createRender({ fiberId: 3, parentFiberId: 1, totalTime: 3 }),
+      ]),
+    );
+    const [parent, first, second] = events;
+
+    expect(parent.ts).toBe(5_000);
+    expect(first.ts).toBe(parent.ts);
+    expect(second.ts).toBe(first.ts + (first.dur ?? 0));
+    // the parent grows to contain its children
+    expect(parent.dur).toBe(5_000);
+  });
+});
@@ -0,0 +1,190 @@
+import type { RecordedCommit, RecordedRender, RenderTrace } from './recording';
+import { describeSuspenseCause } from './suspense';
+
+// https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X' | 'M';
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+}
+
+export interface TraceEventFile {
+  traceEvents: Array<TraceEvent>;
+  displayTimeUnit: 'ms';
+}
+
+const PID = 1;
+const RENDERS_TID = 1;
+const COMMITS_TID = 2;
+const SUSPENSE_TID = 3;
+const CATEGORY = 'react-scan';
+
+// trace events are in microseconds, recordings are in milliseconds
+const toMicroseconds = (ms: number) => Math.round(ms * 1000);
+
+interface RenderNode {
+  render: RecordedRender;
+  children: Array<RenderNode>;
+}
+
+const buildRenderTree = (renders: Array<RecordedRender>) => {
+  const nodes = new Map<number, RenderNode>();
+  const roots: Array<RenderNode> = [];
+
+  for (const render of renders) {
+    const node: RenderNode = { render, children: [] };
+    nodes.set(render.fiberId, node);
+
+    const parent =
+      render.parentFiberId !== null ? nodes.get(render.parentFiberId) : null;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
+
+// children are laid out inside their parent, using the profiler start time
+// when react provides one, so every event is contained in its ancestors
+const layoutRenderNode = (
+  node: RenderNode,
+  ts: number,
+  events: Array<TraceEvent>,
+): number => {
+  const { render } = node;
+  const event: TraceEvent = {
+    name: render.componentName ?? 'Anonymous',
+    cat: CATEGORY,
+    ph: 'X',
+    ts: toMicroseconds(ts),
+    pid: PID,
+    tid: RENDERS_TID,
+    args: {
+      fiberId: render.fiberId,
+      key: render.key,
+      phase: render.phase,
+      selfTime: render.selfTime,
+      totalTime: render.totalTime,
+      changes: render.changes,
+      didCommit: render.didCommit,
+      forget: render.forget,
+      unnecessary: render.unnecessary,
+    },
+  };
+  events.push(event);
+
+  let cursor = ts;
+  for (const child of node.children) {
+    const childTs =
+      child.render.startTime !== null
+        ? Math.max(child.render.startTime, cursor)
+        : cursor;
+    cursor = childTs + layoutRenderNode(child, childTs, events);
+  }
+
+  const duration = Math.max(render.totalTime, cursor - ts);
+  event.dur = toMicroseconds(duration);
+  return duration;
+};
+
+const getCommitEvents = (commit: RecordedCommit) => {
+  const events: Array<TraceEvent> = [
+    {
+      name: `Commit #${commit.index}`,
+      cat: CATEGORY,
+      ph: 'X',
+      ts: toMicroseconds(commit.startTime),
+      dur: toMicroseconds(commit.endTime - commit.startTime),
+      pid: PID,
+      tid: COMMITS_TID,
+      args: {
+        renders: commit.renders.length,
+        lane: commit.lane,
+        timestamp: commit.timestamp,
+      },
+    },
+  ];
+
+  // a fallback spans the commits from the one that showed it to this one
+  for (const fallback of commit.suspense) {
+    events.push({
+      name: fallback.boundary ? `Suspense in ${fallback.boundary}` : 'Suspense',
+      cat: CATEGORY,
+      ph: 'X',
+      ts: toMicroseconds(fallback.startTime),
+      dur: toMicroseconds(fallback.duration),
+      pid: PID,
+      tid: SUSPENSE_TID,
+      args: {
+        cause: describeSuspenseCause(fallback.cause),
+      },
+    });
+  }
+
+  // without profiler timings, renders are placed right before the commit they belong to
+  const roots = buildRenderTree(commit.renders);
+  let fallbackDuration = 0;
+  for (const root of roots) {
+    fallbackDuration += root.render.totalTime;
+  }
+
+  let cursor = commit.startTime - fallbackDuration;
+  for (const root of roots) {
+    const rootTs = root.render.startTime ?? cursor;
+    cursor = rootTs + layoutRenderNode(root, rootTs, events);
+  }
+
+  return events;
+};
+
+const getMetadataEvent = (
+  name: 'process_name' | 'thread_name',
+  tid: number,
+  value: string,
+): TraceEvent => ({
+  name,
+  cat: '__metadata',
+  ph: 'M',
+  ts: 0,
+  pid: PID,
+  tid,
+  args: { name: value },
+});
+
+export const toTraceEvents = (trace: RenderTrace): TraceEventFile => {
+  const traceEvents: Array<TraceEvent> = [
+    getMetadataEvent('process_name', RENDERS_TID, 'React Scan'),
+    getMetadataEvent('thread_name', RENDERS_TID, 'Renders'),
+    getMetadataEvent('thread_name', COMMITS_TID, 'Commits'),
+    getMetadataEvent('thread_name', SUSPENSE_TID, 'Suspense fallbacks'),
+  ];
+
+  for (const commit of trace.commits) {
+    traceEvents.push(...getCommitEvents(commit));
+  }
+
+  return {
+    traceEvents,
+    displayTimeUnit: 'ms',
+  };
+};
+
+export const downloadTraceEvents = (trace: RenderTrace) => {
+  const blob = new Blob([JSON.stringify(toTraceEvents(trace))], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `react-scan-trace-${Date.now()}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,83 @@
+import {
+  type Fiber,
+  MemoComponentTag,
+  SimpleMemoComponentTag,
+  getDisplayName,
+  isCompositeFiber,
+} from 'bippy';
+import type { Change } from './index';
+import { ChangeReason } from './instrumentation';
+
+// renders where every change was a prop with a new identity but the same shape
+const wastedRenderCounts = new WeakMap<object, number>();
+
+export const isUnstablePropsRender = (changes: Array<Change>) => {
+  if (!changes.length) return false;
+  for (const change of changes) {
+    if (change.type !== ChangeReason.Props || !change.unstable) return false;
+  }
+  return true;
+};
+
+export const recordWastedRender = (type: object) => {
+  wastedRenderCounts.set(type, (wastedRenderCounts.get(type) ?? 0) + 1);
+};
+
+export const getWastedRenderCount = (type: unknown) => {
+  if (!type || (typeof type !== 'object' && typeof type !== 'function')) {
+    return 0;
+  }
+  return wastedRenderCounts.get(type) ?? 0;
+};
+
+/**
+ * The component that created the element, and with it the prop values.
+ * Owners are only tracked in development, otherwise this falls back to the
+ * nearest parent component, which is the owner unless the element was passed down as children
+ */
+export const getPropOwner = (fiber: Fiber): Fiber | null => {
+  const debugOwner = (fiber as { _debugOwner?: Fiber | null })._debugOwner;
+  // since react 19 the owner can also be a server component, which isn't a fiber
+  if (debugOwner && 'tag' in debugOwner && isCompositeFiber(debugOwner)) {
+    return debugOwner;
+  }
+
+  let current = fiber.return;
+  // skip the memo() wrapper of the fiber itself
+  if (current?.tag === MemoComponentTag) current = current.return;
+  while (current) {
+    if (isCompositeFiber(current)) return current;
+    current = current.return;
+  }
+  return null;
+};
+
+// memo() of a forwardRef or a component with defaultProps wraps a separate inner fiber
+const isMemoFiber = (fiber: Fiber) =>
+  fiber.tag === MemoComponentTag ||
+  fiber.tag === SimpleMemoComponentTag ||
+  fiber.return?.tag === MemoComponentTag;
+
+/**
+ * How to keep a prop that is recreated on every render stable, e.g.
+ * "Wrap onClick in useCallback in TodoList, and Todo in memo"
+ */
+export const getUnstablePropSuggestion = (
+  fiber: Fiber,
+  propName: string,
+  value: unknown,
+) => {
+  const owner = getPropOwner(fiber);
+  const ownerName = owner ? getDisplayName(owner.type) : null;
+  const hook = typeof value === 'function' ? 'useCallback' : 'useMemo';
+
+  let suggestion = `Wrap ${propName} in ${hook}${ownerName ? ` in ${ownerName}` : ''}`;
+
+  // stable props only skip renders of memoized components
+  if (!isMemoFiber(fiber)) {
+    const name = getDisplayName(fiber.type) ?? 'the component';
+    suggestion += `, and ${name} in memo`;
+  }
+
+  return suggestion;
+};
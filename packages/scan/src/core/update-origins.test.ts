@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { type Fiber, getDisplayName, installRDTHook } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import { ReactScanInternals } from '~core/index';
+import { createInstrumentation } from '~core/instrumentation';
+import { getUpdateOrigin, trackUpdateOrigins } from '~core/update-origins';
+import { getStackFrames } from '~web/utils/open-in-editor';
+
+const FunctionComponentTag = 0;
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+const renderedFibers = new Map<string, Fiber>();
+
+// tracks changes like the focused inspector does
+createInstrumentation('react-scan-update-origins-test', {
+  onCommitStart() {},
+  isValidFiber: () => true,
+  onRender(fiber) {
+    const name = getDisplayName(fiber.type);
+    if (name) renderedFibers.set(name, fiber);
+  },
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: true,
+});
+
+const createHookFiber = () => {
+  const calls: Array<unknown> = [];
+  const queue = { dispatch: (value: unknown) => calls.push(value) };
+  const fiber = {
+    tag: FunctionComponentTag,
+    memoizedState: {
+      memoizedState: 0,
+      queue: null,
+      next: { memoizedState: 0, queue, next: null },
+    },
+  } as unknown as Fiber;
+  return { fiber, queue, calls };
+};
+
+describe('update origins', () => {
+  it('attributes a state change to the setter call before the render', () => {
+    const { fiber, queue, calls } = createHookFiber();
+    const { dispatch } = queue;
+
+    trackUpdateOrigins(fiber);
+    expect(queue.dispatch).not.toBe(dispatch);
+
+    queue.dispatch(1);
+    expect(calls).toEqual([1]);
+    expect(getUpdateOrigin(fiber, 1)).toBeNull();
+
+    trackUpdateOrigins(fiber);
+    expect(getUpdateOrigin(fiber, 1)?.stack).toContain('update-origins.test');
+
+    // the next render without a setter call processed no update
+    trackUpdateOrigins(fiber);
+    expect(getUpdateOrigin(fiber, 1)).toBeNull();
+  });
+
+  it('wraps each setter once', () => {
+    const { fiber, queue } = createHookFiber();
+    trackUpdateOrigins(fiber);
+    const wrapped = queue.dispatch;
+    trackUpdateOrigins(fiber);
+    expect(queue.dispatch).toBe(wrapped);
+  });
+
+  it('records the setter calls of a real tree while changes are tracked', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    const options = ReactScanInternals.options.value;
+    ReactScanInternals.options.value = { ...options, trackUpdateOrigins: true };
+
+    const setters: Array<(count: number) => void> = [];
+    const Counter = () => {
+      const [count, setCount] = useState(0);
+      setters.push(setCount);
+      return createElement('span', null, count);
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Counter)));
+    flushSync(() => setters[0](1));
+    flushSync(() => setters[1](2));
+
+    // unmounting clears the hooks of the fiber
+    const fiber = renderedFibers.get('Counter');
+    expect(fiber && getUpdateOrigin(fiber, 0)?.stack).toContain(
+      'update-origins.test',
+    );
+    root.unmount();
+    ReactScanInternals.options.value = options;
+
+    // the wrapper replaces the setter once, then it's stable again
+    expect(setters[1]).not.toBe(setters[0]);
+    expect(setters[2]).toBe(setters[1]);
+  });
+
+  it('parses chrome and firefox frames, skipping dependencies', () => {
+    const frames = getStackFrames(
+      [
+        'Error',
+        '    at dispatchSetState (http://localhost:5173/node_modules/.vite/deps/react-dom.js?v=1:10:5)',
+        '    at Object.useCartSync (http://localhost:5173/src/cart.ts?t=1:42:7)',
+        '    at http://localhost:5173/src/socket.ts:3:1',
+        'onMessage/<@http://localhost:5173/src/socket.ts:9:2',
+      ].join('\n'),
+    );
+
+    expect(frames).toEqual([
+      {
+        functionName: 'useCartSync',
+        fileName: 'src/cart.ts',
+        lineNumber: 42,
+        columnNumber: 7,
+      },
+      {
+        functionName: null,
+        fileName: 'src/socket.ts',
+        lineNumber: 3,
+        columnNumber: 1,
+      },
+      {
+        functionName: 'onMessage',
+        fileName: 'src/socket.ts',
+        lineNumber: 9,
+        columnNumber: 2,
+      },
+    ]);
+  });
+});
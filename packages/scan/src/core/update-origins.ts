@@ -0,0 +1,123 @@
+import { ClassComponentTag, type Fiber, type MemoizedState } from 'bippy';
+import { ReactScanInternals } from './index';
+
+export interface UpdateOrigin {
+  // the raw stack of the setter call, only parsed when the inspector shows it
+  stack: string;
+  timestamp: number;
+}
+
+type Updater = (...args: Array<unknown>) => unknown;
+
+interface HookQueue {
+  dispatch?: unknown;
+}
+
+interface ClassInstance {
+  setState?: unknown;
+}
+
+// v8 only, keeps the wrapper out of the recorded stack
+const captureStackTrace = (
+  Error as { captureStackTrace?: (target: object, fn: Updater) => void }
+).captureStackTrace;
+
+// keyed by the hook queue or the class instance, both are shared by a fiber and its alternate
+const pendingOrigins = new WeakMap<object, UpdateOrigin>();
+// the origins of the updates the latest render of the fiber processed
+const committedOrigins = new WeakMap<object, UpdateOrigin>();
+const wrappedUpdaters = new WeakSet<Updater>();
+
+const wrapUpdater = (target: object, updater: Updater): Updater => {
+  const wrapped = function (this: unknown, ...args: Array<unknown>) {
+    const error = new Error();
+    captureStackTrace?.(error, wrapped);
+    pendingOrigins.set(target, {
+      stack: error.stack ?? '',
+      timestamp: performance.now(),
+    });
+    return updater.apply(this, args);
+  };
+  wrappedUpdaters.add(wrapped);
+  return wrapped;
+};
+
+const getHookQueue = (hook: MemoizedState): HookQueue | null =>
+  hook.queue && typeof hook.queue === 'object' ? hook.queue : null;
+
+const settleOrigin = (target: object) => {
+  const origin = pendingOrigins.get(target);
+  if (origin) {
+    committedOrigins.set(target, origin);
+    pendingOrigins.delete(target);
+  } else {
+    committedOrigins.delete(target);
+  }
+};
+
+export const shouldTrackUpdateOrigins = () =>
+  !!ReactScanInternals.options.value.trackUpdateOrigins;
+
+/**
+ * Wraps the state setters of a rendered fiber so the next calls record where
+ * they came from. Setters captured by closures before the fiber was first
+ * seen keep calling React directly, a component that subscribes in a mount
+ * effect is only attributed after its next render. The wrapper breaks the
+ * setter's stable identity once, dependents of the setter run again
+ */
+export const trackUpdateOrigins = (fiber: Fiber) => {
+  if (fiber.tag === ClassComponentTag) {
+    const instance: ClassInstance | null = fiber.stateNode;
+    if (!instance) return;
+    const { setState } = instance;
+    if (
+      typeof setState === 'function' &&
+      !wrappedUpdaters.has(setState as Updater)
+    ) {
+      // an own property shadows the prototype, `this.setState` picks it up right away
+      instance.setState = wrapUpdater(instance, setState as Updater);
+    }
+    settleOrigin(instance);
+    return;
+  }
+
+  let hook: MemoizedState | null = fiber.memoizedState;
+  while (hook) {
+    const queue = getHookQueue(hook);
+    if (queue) {
+      const { dispatch } = queue;
+      if (
+        typeof dispatch === 'function' &&
+        !wrappedUpdaters.has(dispatch as Updater)
+      ) {
+        // useState and useReducer return the queue's dispatch from the next render on
+        queue.dispatch = wrapUpdater(queue, dispatch as Updater);
+      }
+      settleOrigin(queue);
+    }
+    hook = hook.next;
+  }
+};
+
+/**
+ * Where the update behind a state change of the latest render was enqueued,
+ * `stateKey` is the hook index for function components
+ */
+export const getUpdateOrigin = (
+  fiber: Fiber,
+  stateKey: string | number,
+): UpdateOrigin | null => {
+  if (fiber.tag === ClassComponentTag) {
+    return fiber.stateNode
+      ? (committedOrigins.get(fiber.stateNode) ?? null)
+      : null;
+  }
+  if (typeof stateKey !== 'number') return null;
+
+  let hook: MemoizedState | null = fiber.memoizedState;
+  for (let i = 0; hook && i < stateKey; i++) {
+    hook = hook.next;
+  }
+  const queue = hook ? getHookQueue(hook) : null;
+  return queue ? (committedOrigins.get(queue) ?? null) : null;
+};
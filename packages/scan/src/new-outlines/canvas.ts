@@ -1,6 +1,6 @@
 import type { ActiveOutline, OutlineData } from './types';
 
-export const OUTLINE_ARRAY_SIZE = 7;
+export const OUTLINE_ARRAY_SIZE = 12;
 export const MONO_FONT =
   'Menlo,Consolas,Monaco,Liberation Mono,Lucida Console,monospace';
 
@@ -12,15 +12,132 @@ export const lerp = (start: number, end: number) => {
 export const MAX_PARTS_LENGTH = 4;
 export const MAX_LABEL_LENGTH = 40;
 export const TOTAL_FRAMES = 45;
+// compiled components get a dashed outline, so re-renders that the compiler couldn't skip stand out
+const COMPILED_LINE_DASH = [4, 2];
+const NO_LINE_DASH: Array<number> = [];
+
+export type OutlineColorScale = 'none' | 'renders' | 'selfTime';
+export type OutlinePaletteName = 'default' | 'high-contrast';
+
+// the worker can't read options, so the main thread sends it this instead
+export interface OutlineAppearance {
+  animationSpeed: 'slow' | 'fast' | 'off';
+  colorScale: OutlineColorScale;
+  palette: OutlinePaletteName;
+  alwaysShowLabels: boolean;
+}
+
+export const DEFAULT_OUTLINE_APPEARANCE: OutlineAppearance = {
+  animationSpeed: 'fast',
+  colorScale: 'none',
+  palette: 'default',
+  alwaysShowLabels: false,
+};
+
+interface OutlinePalette {
+  primary: string;
+  // the hot end of the heatmap, primary is the cold end
+  hot: string;
+  unnecessary: string;
+  overBudget: string;
+  remounted: string;
+  lineWidth: number;
+  fillAlpha: number;
+}
+
+export const OUTLINE_PALETTES: Record<OutlinePaletteName, OutlinePalette> = {
+  default: {
+    primary: '115,97,230',
+    hot: '255,171,0',
+    unnecessary: '128,128,128',
+    overBudget: '239,68,68',
+    remounted: '236,72,153',
+    lineWidth: 1,
+    fillAlpha: 0.1,
+  },
+  'high-contrast': {
+    primary: '0,90,255',
+    hot: '255,0,170',
+    unnecessary: '0,0,0',
+    overBudget: '255,0,0',
+    remounted: '255,120,0',
+    lineWidth: 2,
+    fillAlpha: 0.2,
+  },
+};
+
+export const primaryColor = OUTLINE_PALETTES.default.primary;
+export const secondaryColor = OUTLINE_PALETTES.default.unnecessary;
+
+const TOTAL_FRAMES_BY_SPEED: Record<
+  OutlineAppearance['animationSpeed'],
+  number
+> = {
+  slow: TOTAL_FRAMES * 2,
+  fast: TOTAL_FRAMES,
+  // not faded, cut off once the frames ran out
+  off: TOTAL_FRAMES,
+};
 
-export const primaryColor = '115,97,230';
-export const secondaryColor = '128,128,128';
+// renders and milliseconds at which an outline reaches the hot end of the heatmap
+const HEATMAP_MAX_RENDERS = 10;
+const HEATMAP_MAX_SELF_TIME = 16;
+
+const getHeat = (
+  colorScale: OutlineColorScale,
+  count: number,
+  selfTime: number,
+) => {
+  switch (colorScale) {
+    case 'renders':
+      return Math.min((count - 1) / (HEATMAP_MAX_RENDERS - 1), 1);
+    case 'selfTime':
+      return Math.min(selfTime / HEATMAP_MAX_SELF_TIME, 1);
+    default:
+      return 0;
+  }
+};
+
+const mixColors = (from: string, to: string, t: number) => {
+  if (t <= 0) return from;
+  const fromParts = from.split(',');
+  const toParts = to.split(',');
+  let color = '';
+  for (let i = 0; i < 3; i++) {
+    const start = Number(fromParts[i]);
+    const end = Number(toParts[i]);
+    color += `${i ? ',' : ''}${Math.round(start + (end - start) * t)}`;
+  }
+  return color;
+};
+
+// a budget violation is worth seeing even when the render was also unnecessary
+const getOutlineColor = (
+  palette: OutlinePalette,
+  overBudget: boolean,
+  remounted: boolean,
+  unnecessary: boolean,
+  heat: number,
+) => {
+  if (overBudget) return palette.overBudget;
+  if (remounted) return palette.remounted;
+  if (unnecessary) return palette.unnecessary;
+  return mixColors(palette.primary, palette.hot, heat);
+};
 
 export const getLabelText = (outlines: ActiveOutline[]): string => {
   const nameByCount = new Map<string, number>();
+  const compiledNames = new Set<string>();
+  const remountedNames = new Set<string>();
   for (const outline of outlines) {
-    const { name, count } = outline;
+    const { name, count, compiled, remounted } = outline;
     nameByCount.set(name, (nameByCount.get(name) || 0) + count);
+    if (compiled) {
+      compiledNames.add(name);
+    }
+    if (remounted) {
+      remountedNames.add(name);
+    }
   }
 
   const countByNames = new Map<number, string[]>();
@@ -41,6 +158,12 @@ export const getLabelText = (outlines: ActiveOutline[]): string => {
   for (let i = 0; i < partsLength; i++) {
     const [count, names] = partsEntries[i];
     let part = `${names.slice(0, MAX_PARTS_LENGTH).join(', ')} ×${count}`;
+    if (names.some((name) => compiledNames.has(name))) {
+      part = `✨${part}`;
+    }
+    if (names.some((name) => remountedNames.has(name))) {
+      part = `↻${part}`;
+    }
     if (part.length > MAX_LABEL_LENGTH) {
       part = `${part.slice(0, MAX_LABEL_LENGTH)}…`;
     }
@@ -69,7 +192,21 @@ export const updateOutlines = (
   activeOutlines: Map<string, ActiveOutline>,
   outlines: OutlineData[],
 ) => {
-  for (const { id, name, count, x, y, width, height, didCommit } of outlines) {
+  for (const {
+    id,
+    name,
+    count,
+    x,
+    y,
+    width,
+    height,
+    didCommit,
+    unnecessary,
+    overBudget,
+    selfTime,
+    compiled,
+    remounted,
+  } of outlines) {
     const outline: ActiveOutline = {
       id,
       name,
@@ -84,6 +221,11 @@ export const updateOutlines = (
       targetWidth: width,
       targetHeight: height,
       didCommit,
+      unnecessary,
+      overBudget,
+      selfTime,
+      compiled,
+      remounted,
     };
     const key = String(outline.id);
 
@@ -96,6 +238,11 @@ export const updateOutlines = (
       existingOutline.targetWidth = width;
       existingOutline.targetHeight = height;
       existingOutline.didCommit = didCommit;
+      existingOutline.unnecessary = unnecessary;
+      existingOutline.overBudget = overBudget;
+      existingOutline.selfTime += selfTime;
+      existingOutline.compiled = compiled;
+      existingOutline.remounted = remounted;
     } else {
       activeOutlines.set(key, outline);
     }
@@ -133,7 +280,12 @@ export const drawCanvas = (
   canvas: HTMLCanvasElement | OffscreenCanvas,
   dpr: number,
   activeOutlines: Map<string, ActiveOutline>,
+  appearance: OutlineAppearance,
 ) => {
+  const palette = OUTLINE_PALETTES[appearance.palette];
+  const totalFrames = TOTAL_FRAMES_BY_SPEED[appearance.animationSpeed];
+  const isAnimated = appearance.animationSpeed !== 'off';
+
   ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
 
   const groupedOutlinesMap = new Map<string, ActiveOutline[]>();
@@ -145,6 +297,11 @@ export const drawCanvas = (
       width: number;
       height: number;
       alpha: number;
+      unnecessary: boolean;
+      overBudget: boolean;
+      heat: number;
+      compiled: boolean;
+      remounted: boolean;
     }
   >();
 
@@ -159,19 +316,25 @@ export const drawCanvas = (
       targetWidth,
       targetHeight,
       frame,
+      unnecessary,
+      overBudget,
+      count,
+      selfTime,
+      compiled,
+      remounted,
     } = outline;
     if (targetX !== x) {
-      outline.x = lerp(x, targetX);
+      outline.x = isAnimated ? lerp(x, targetX) : targetX;
     }
     if (targetY !== y) {
-      outline.y = lerp(y, targetY);
+      outline.y = isAnimated ? lerp(y, targetY) : targetY;
     }
 
     if (targetWidth !== width) {
-      outline.width = lerp(width, targetWidth);
+      outline.width = isAnimated ? lerp(width, targetWidth) : targetWidth;
     }
     if (targetHeight !== height) {
-      outline.height = lerp(height, targetHeight);
+      outline.height = isAnimated ? lerp(height, targetHeight) : targetHeight;
     }
 
     const labelKey = `${targetX ?? x},${targetY ?? y}`;
@@ -184,8 +347,10 @@ export const drawCanvas = (
       groupedOutlinesMap.set(labelKey, [outline]);
     }
 
-    const alpha = 1 - frame / TOTAL_FRAMES;
+    // without animations outlines are shown at full opacity until their frames run out
+    const alpha = isAnimated ? 1 - frame / totalFrames : 1;
     outline.frame++;
+    const heat = getHeat(appearance.colorScale, count, selfTime);
 
     const rect = rectMap.get(rectKey) || {
       x,
@@ -193,25 +358,67 @@ export const drawCanvas = (
       width,
       height,
       alpha,
+      unnecessary: unnecessary === 1,
+      overBudget: overBudget === 1,
+      heat,
+      compiled: compiled === 1,
+      remounted: remounted === 1,
     };
     if (alpha > rect.alpha) {
       rect.alpha = alpha;
     }
+    // a merged rect is only unnecessary if every outline drawn in it is
+    if (!unnecessary) {
+      rect.unnecessary = false;
+    }
+    if (overBudget) {
+      rect.overBudget = true;
+    }
+    if (heat > rect.heat) {
+      rect.heat = heat;
+    }
+    // dashed only if every component drawn in the rect was compiled
+    if (!compiled) {
+      rect.compiled = false;
+    }
+    if (remounted) {
+      rect.remounted = true;
+    }
     rectMap.set(rectKey, rect);
   }
 
   for (const rect of rectMap.values()) {
-    const { x, y, width, height, alpha } = rect;
-    ctx.strokeStyle = `rgba(${primaryColor},${alpha})`;
-    ctx.lineWidth = 1;
+    const {
+      x,
+      y,
+      width,
+      height,
+      alpha,
+      unnecessary,
+      overBudget,
+      heat,
+      compiled,
+      remounted,
+    } = rect;
+    const color = getOutlineColor(
+      palette,
+      overBudget,
+      remounted,
+      unnecessary,
+      heat,
+    );
+    ctx.strokeStyle = `rgba(${color},${alpha})`;
+    ctx.lineWidth = palette.lineWidth;
+    ctx.setLineDash(compiled ? COMPILED_LINE_DASH : NO_LINE_DASH);
 
     ctx.beginPath();
     ctx.rect(x, y, width, height);
     ctx.stroke();
-    ctx.fillStyle = `rgba(${primaryColor},${alpha * 0.1})`;
+    ctx.fillStyle = `rgba(${color},${alpha * palette.fillAlpha})`;
     ctx.fill();
   }
 
+  ctx.setLineDash(NO_LINE_DASH);
   ctx.font = `11px ${MONO_FONT}`;
 
   const labelMap = new Map<
@@ -232,7 +439,8 @@ export const drawCanvas = (
   for (const outlines of groupedOutlinesMap.values()) {
     const first = outlines[0];
     const { x, y, frame } = first;
-    const alpha = 1 - frame / TOTAL_FRAMES;
+    const alpha =
+      isAnimated && !appearance.alwaysShowLabels ? 1 - frame / totalFrames : 1;
     const text = getLabelText(outlines);
     const { width } = ctx.measureText(text);
     const height = 11;
@@ -252,7 +460,7 @@ export const drawCanvas = (
       labelY = 0;
     }
 
-    if (frame > TOTAL_FRAMES) {
+    if (frame > totalFrames) {
       for (const outline of outlines) {
         activeOutlines.delete(String(outline.id));
       }
@@ -293,7 +501,7 @@ export const drawCanvas = (
   }
 
   for (const label of labelMap.values()) {
-    const { x, y, alpha, width, height, text } = label;
+    const { x, y, alpha, width, height, text, outlines } = label;
 
     let labelY: number = y - height - 4;
 
@@ -301,7 +509,28 @@ export const drawCanvas = (
       labelY = 0;
     }
 
-    ctx.fillStyle = `rgba(${primaryColor},${alpha})`;
+    let isOverBudget = false;
+    let isRemounted = false;
+    let isUnnecessary = true;
+    let heat = 0;
+    for (const outline of outlines) {
+      if (outline.overBudget) isOverBudget = true;
+      if (outline.remounted) isRemounted = true;
+      if (!outline.unnecessary) isUnnecessary = false;
+      heat = Math.max(
+        heat,
+        getHeat(appearance.colorScale, outline.count, outline.selfTime),
+      );
+    }
+    const color = getOutlineColor(
+      palette,
+      isOverBudget,
+      isRemounted,
+      isUnnecessary,
+      heat,
+    );
+
+    ctx.fillStyle = `rgba(${color},${alpha})`;
     ctx.fillRect(x, labelY, width + 4, height + 4);
 
     ctx.fillStyle = `rgba(255,255,255,${alpha})`;
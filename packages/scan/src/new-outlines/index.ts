@@ -4,21 +4,40 @@ import {
   getDisplayName,
   getFiberId,
   getNearestHostFibers,
+  getType,
   isCompositeFiber,
 } from 'bippy';
+import { isComponentScanned } from '~core/component-filter';
 import { ReactScanInternals, Store, ignoredProps } from '~core/index';
-import { createInstrumentation } from '~core/instrumentation';
+import { type Render, createInstrumentation } from '~core/instrumentation';
+import { getCommitSuspenseFallbacks } from '~core/suspense';
+import { signalWidgetViews } from '~web/state';
 import { readLocalStorage, removeLocalStorage } from '~web/utils/helpers';
-import { log, logIntro } from '~web/utils/log';
+import { log, logIntro, logSuspenseFallbacks } from '~web/utils/log';
+import { enqueueFiber } from '~web/utils/pin';
+import { playRenderSound } from '~web/utils/sound';
+import {
+  finishCommit,
+  recordCommitRender,
+  startCommit,
+} from '~web/views/commits/utils';
 import { inspectorUpdateSignal } from '~web/views/inspector/states';
+import { recordSlowDownRender } from '~web/views/slow-downs/utils';
 import {
+  DEFAULT_OUTLINE_APPEARANCE,
   OUTLINE_ARRAY_SIZE,
+  type OutlineAppearance,
   drawCanvas,
   initCanvas,
   updateOutlines,
   updateScroll,
 } from './canvas';
-import type { ActiveOutline, BlueprintOutline, OutlineData } from './types';
+import type {
+  ActiveOutline,
+  BlueprintOutline,
+  OutlineData,
+  RecordedOutline,
+} from './types';
 
 // The worker code will be replaced at build time
 const workerCode = '__WORKER_CODE__';
@@ -33,7 +52,20 @@ const activeOutlines = new Map<string, ActiveOutline>();
 const blueprintMap = new Map<Fiber, BlueprintOutline>();
 const blueprintMapKeys = new Set<Fiber>();
 
-export const outlineFiber = (fiber: Fiber) => {
+// host elements that intersected the viewport the last time their outline was measured
+const onScreenElements = new WeakSet<Element>();
+
+export const isFiberOnScreen = (fiber: Fiber) => {
+  const hostFibers = getNearestHostFibers(fiber);
+  for (let i = 0, len = hostFibers.length; i < len; i++) {
+    if (onScreenElements.has(hostFibers[i].stateNode)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const outlineFiber = (fiber: Fiber, render: Render) => {
   if (!isCompositeFiber(fiber)) return;
   const name =
     typeof fiber.type === 'string' ? fiber.type : getDisplayName(fiber);
@@ -41,6 +73,10 @@ export const outlineFiber = (fiber: Fiber) => {
   const blueprint = blueprintMap.get(fiber);
   const nearestFibers = getNearestHostFibers(fiber);
   const didCommit = didFiberCommit(fiber);
+  const unnecessary = render.unnecessary ? 1 : 0;
+  const overBudget = render.overBudget ? 1 : 0;
+  const compiled = render.forget ? 1 : 0;
+  const remounted = render.remounted ? 1 : 0;
 
   if (!blueprint) {
     blueprintMap.set(fiber, {
@@ -48,13 +84,45 @@ export const outlineFiber = (fiber: Fiber) => {
       count: 1,
       elements: nearestFibers.map((fiber) => fiber.stateNode),
       didCommit: didCommit ? 1 : 0,
+      unnecessary,
+      overBudget,
+      selfTime: render.time ?? 0,
+      compiled,
+      remounted,
     });
     blueprintMapKeys.add(fiber);
   } else {
     blueprint.count++;
+    blueprint.selfTime += render.time ?? 0;
+    // one necessary render is enough to make the whole outline necessary
+    if (!unnecessary) {
+      blueprint.unnecessary = 0;
+    }
+    if (overBudget) {
+      blueprint.overBudget = 1;
+    }
+    if (remounted) {
+      blueprint.remounted = 1;
+    }
   }
 };
 
+const getOutlineAppearance = (): OutlineAppearance => {
+  const {
+    animationSpeed,
+    outlineColorScale,
+    outlinePalette,
+    alwaysShowLabels,
+  } = ReactScanInternals.options.value;
+  return {
+    animationSpeed: animationSpeed ?? DEFAULT_OUTLINE_APPEARANCE.animationSpeed,
+    colorScale: outlineColorScale ?? DEFAULT_OUTLINE_APPEARANCE.colorScale,
+    palette: outlinePalette ?? DEFAULT_OUTLINE_APPEARANCE.palette,
+    alwaysShowLabels:
+      alwaysShowLabels ?? DEFAULT_OUTLINE_APPEARANCE.alwaysShowLabels,
+  };
+};
+
 const mergeRects = (rects: DOMRect[]) => {
   const firstRect = rects[0];
   if (rects.length === 1) return firstRect;
@@ -136,12 +204,13 @@ export const getBatchedRectMap = async function* (
 const SupportedArrayBuffer =
   typeof SharedArrayBuffer !== 'undefined' ? SharedArrayBuffer : ArrayBuffer;
 
-export const flushOutlines = async () => {
+const drawOutlines = async (
+  ids: Array<number>,
+  blueprints: Array<BlueprintOutline>,
+) => {
   const elements: Element[] = [];
 
-  for (const fiber of blueprintMapKeys) {
-    const blueprint = blueprintMap.get(fiber);
-    if (!blueprint) continue;
+  for (const blueprint of blueprints) {
     for (let i = 0; i < blueprint.elements.length; i++) {
       if (!(blueprint.elements[i] instanceof Element)) {
         // TODO: filter this at the root
@@ -151,6 +220,9 @@ export const flushOutlines = async () => {
     }
   }
 
+  // the intersection observer never calls back without elements to observe
+  if (!elements.length) return;
+
   const rectsMap = new Map<Element, DOMRect>();
 
   for await (const entries of getBatchedRectMap(elements)) {
@@ -159,20 +231,22 @@ export const flushOutlines = async () => {
       const rect = entry.intersectionRect;
       if (entry.isIntersecting && rect.width && rect.height) {
         rectsMap.set(element, rect);
+        onScreenElements.add(element);
+      } else {
+        onScreenElements.delete(element);
       }
     }
 
-    const blueprints: BlueprintOutline[] = [];
+    const visibleBlueprints: BlueprintOutline[] = [];
     const blueprintRects: DOMRect[] = [];
     const blueprintIds: number[] = [];
 
-    for (const fiber of blueprintMapKeys) {
-      const blueprint = blueprintMap.get(fiber);
-      if (!blueprint) continue;
+    for (let i = 0, len = blueprints.length; i < len; i++) {
+      const blueprint = blueprints[i];
 
       const rects: DOMRect[] = [];
-      for (let i = 0; i < blueprint.elements.length; i++) {
-        const element = blueprint.elements[i];
+      for (let j = 0; j < blueprint.elements.length; j++) {
+        const element = blueprint.elements[j];
         const rect = rectsMap.get(element);
         if (!rect) continue;
         rects.push(rect);
@@ -180,24 +254,33 @@ export const flushOutlines = async () => {
 
       if (!rects.length) continue;
 
-      blueprints.push(blueprint);
+      visibleBlueprints.push(blueprint);
       blueprintRects.push(mergeRects(rects));
-      blueprintIds.push(getFiberId(fiber));
+      blueprintIds.push(ids[i]);
     }
 
-    if (blueprints.length > 0) {
+    if (visibleBlueprints.length > 0) {
       const arrayBuffer = new SupportedArrayBuffer(
-        blueprints.length * OUTLINE_ARRAY_SIZE * 4,
+        visibleBlueprints.length * OUTLINE_ARRAY_SIZE * 4,
       );
       const sharedView = new Float32Array(arrayBuffer);
-      const blueprintNames = new Array(blueprints.length);
+      const blueprintNames = new Array(visibleBlueprints.length);
       let outlineData: OutlineData[] | undefined;
 
-      for (let i = 0, len = blueprints.length; i < len; i++) {
-        const blueprint = blueprints[i];
+      for (let i = 0, len = visibleBlueprints.length; i < len; i++) {
+        const blueprint = visibleBlueprints[i];
         const id = blueprintIds[i];
         const { x, y, width, height } = blueprintRects[i];
-        const { count, name, didCommit } = blueprint;
+        const {
+          count,
+          name,
+          didCommit,
+          unnecessary,
+          overBudget,
+          selfTime,
+          compiled,
+          remounted,
+        } = blueprint;
 
         if (worker) {
           const scaledIndex = i * OUTLINE_ARRAY_SIZE;
@@ -208,9 +291,14 @@ export const flushOutlines = async () => {
           sharedView[scaledIndex + 4] = width;
           sharedView[scaledIndex + 5] = height;
           sharedView[scaledIndex + 6] = didCommit;
+          sharedView[scaledIndex + 7] = unnecessary;
+          sharedView[scaledIndex + 8] = overBudget;
+          sharedView[scaledIndex + 9] = selfTime;
+          sharedView[scaledIndex + 10] = compiled;
+          sharedView[scaledIndex + 11] = remounted;
           blueprintNames[i] = name;
         } else {
-          outlineData ||= new Array(blueprints.length);
+          outlineData ||= new Array(visibleBlueprints.length);
           outlineData[i] = {
             id,
             name,
@@ -220,6 +308,11 @@ export const flushOutlines = async () => {
             width,
             height,
             didCommit: didCommit as 0 | 1,
+            unnecessary,
+            overBudget,
+            selfTime,
+            compiled,
+            remounted,
           };
         }
       }
@@ -229,6 +322,7 @@ export const flushOutlines = async () => {
           type: 'draw-outlines',
           data: arrayBuffer,
           names: blueprintNames,
+          appearance: getOutlineAppearance(),
         });
       } else if (canvas && ctx && outlineData) {
         updateOutlines(activeOutlines, outlineData);
@@ -238,17 +332,64 @@ export const flushOutlines = async () => {
       }
     }
   }
+};
+
+export const flushOutlines = async () => {
+  const fibers = Array.from(blueprintMapKeys);
+  const ids: number[] = [];
+  const blueprints: BlueprintOutline[] = [];
 
-  for (const fiber of blueprintMapKeys) {
+  for (const fiber of fibers) {
+    const blueprint = blueprintMap.get(fiber);
+    if (!blueprint) continue;
+    ids.push(getFiberId(fiber));
+    blueprints.push(blueprint);
+  }
+
+  await drawOutlines(ids, blueprints);
+
+  for (const fiber of fibers) {
     blueprintMap.delete(fiber);
     blueprintMapKeys.delete(fiber);
   }
 };
 
+/**
+ * Draws outlines that didn't come from the last commit, like the ones recorded
+ * for a past commit, at the current position of their elements. Outlines that
+ * are still animating are cleared first, so the canvas only shows these
+ */
+export const replayOutlines = (outlines: Array<RecordedOutline>) => {
+  if (worker) {
+    worker.postMessage({ type: 'clear' });
+  } else {
+    activeOutlines.clear();
+    draw();
+  }
+
+  const ids: number[] = [];
+  const blueprints: BlueprintOutline[] = [];
+  for (const outline of outlines) {
+    ids.push(outline.id);
+    blueprints.push({
+      ...outline,
+      elements: outline.elements.filter((element) => element.isConnected),
+    });
+  }
+
+  return drawOutlines(ids, blueprints);
+};
+
 const draw = () => {
   if (!ctx || !canvas) return;
 
-  const shouldContinue = drawCanvas(ctx, canvas, dpr, activeOutlines);
+  const shouldContinue = drawCanvas(
+    ctx,
+    canvas,
+    dpr,
+    activeOutlines,
+    getOutlineAppearance(),
+  );
 
   if (shouldContinue) {
     animationFrameId = requestAnimationFrame(draw);
@@ -424,6 +565,10 @@ export const isValidFiber = (fiber: Fiber) => {
     return false;
   }
 
+  if (!isComponentScanned(getType(fiber.type))) {
+    return false;
+  }
+
   return true;
 };
 export const initReactScanInstrumentation = (setupToolbar: () => void) => {
@@ -449,8 +594,17 @@ export const initReactScanInstrumentation = (setupToolbar: () => void) => {
     }); // TODO(Alexis): perhaps a better timing
   };
 
+  // once the summary opened it keeps counting change reasons for the rest of the session,
+  // not only while it's visible
+  let hasOpenedSummary = false;
+  const isCountingChangeReasons = () => {
+    hasOpenedSummary ||= signalWidgetViews.value.view === 'summary';
+    return hasOpenedSummary;
+  };
+
   const instrumentation = createInstrumentation('react-scan-devtools-0.1.0', {
     onCommitStart: () => {
+      startCommit();
       ReactScanInternals.options.value.onCommitStart?.();
     },
     onActive: () => {
@@ -467,7 +621,10 @@ export const initReactScanInstrumentation = (setupToolbar: () => void) => {
       // todo: ingest errors without accidentally collecting data about user
     },
     isValidFiber,
+    isFiberOnScreen,
     onRender: (fiber, renders) => {
+      enqueueFiber(fiber);
+
       const isOverlayPaused =
         ReactScanInternals.instrumentation?.isPaused.value;
       const isInspectorInactive =
@@ -479,11 +636,16 @@ export const initReactScanInstrumentation = (setupToolbar: () => void) => {
         return;
       }
       if (!isOverlayPaused) {
-        outlineFiber(fiber);
+        outlineFiber(fiber, renders[0]);
       }
+      recordSlowDownRender(fiber, renders[0]);
+      recordCommitRender(fiber, renders[0]);
       if (ReactScanInternals.options.value.log) {
         // this can be expensive given enough re-renders
-        log(renders);
+        log(fiber, renders);
+      }
+      if (ReactScanInternals.options.value.playSound) {
+        playRenderSound(renders[0]);
       }
 
       if (Store.inspectState.value.kind === 'focused') {
@@ -494,12 +656,20 @@ export const initReactScanInstrumentation = (setupToolbar: () => void) => {
     },
     onCommitFinish: () => {
       scheduleSetup();
+      finishCommit();
+      if (ReactScanInternals.options.value.log) {
+        logSuspenseFallbacks(getCommitSuspenseFallbacks());
+      }
       ReactScanInternals.options.value.onCommitFinish?.();
     },
     onPostCommitFiberRoot() {
       scheduleSetup();
     },
-    trackChanges: false,
+    // the console log, the inspector and the summary show what changed, outlines alone don't need it
+    trackChanges: () =>
+      !!ReactScanInternals.options.value.log ||
+      Store.inspectState.value.kind === 'focused' ||
+      isCountingChangeReasons(),
   });
   ReactScanInternals.instrumentation = instrumentation;
 };
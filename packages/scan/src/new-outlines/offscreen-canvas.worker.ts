@@ -1,9 +1,18 @@
-import { OUTLINE_ARRAY_SIZE, drawCanvas, initCanvas } from './canvas';
-import type { ActiveOutline } from './types';
+import {
+  DEFAULT_OUTLINE_APPEARANCE,
+  OUTLINE_ARRAY_SIZE,
+  type OutlineAppearance,
+  drawCanvas,
+  initCanvas,
+  updateOutlines,
+  updateScroll,
+} from './canvas';
+import type { ActiveOutline, OutlineData } from './types';
 
 let canvas: OffscreenCanvas | null = null;
 let ctx: OffscreenCanvasRenderingContext2D | null = null;
 let dpr = 1;
+let appearance: OutlineAppearance = DEFAULT_OUTLINE_APPEARANCE;
 
 const activeOutlines: Map<string, ActiveOutline> = new Map();
 let animationFrameId: number | null = null;
@@ -11,7 +20,13 @@ let animationFrameId: number | null = null;
 const draw = () => {
   if (!ctx || !canvas) return;
 
-  const shouldContinue = drawCanvas(ctx, canvas, dpr, activeOutlines);
+  const shouldContinue = drawCanvas(
+    ctx,
+    canvas,
+    dpr,
+    activeOutlines,
+    appearance,
+  );
 
   if (shouldContinue) {
     animationFrameId = requestAnimationFrame(draw);
@@ -49,45 +64,29 @@ self.onmessage = (event) => {
 
   if (type === 'draw-outlines') {
     const { data, names } = event.data;
+    appearance = event.data.appearance;
 
     const sharedView = new Float32Array(data);
+    const outlines: Array<OutlineData> = [];
     for (let i = 0; i < sharedView.length; i += OUTLINE_ARRAY_SIZE) {
-      const x = sharedView[i + 2];
-      const y = sharedView[i + 3];
-      const width = sharedView[i + 4];
-      const height = sharedView[i + 5];
-
-      const didCommit = sharedView[i + 6] as 0 | 1;
-      const outline = {
+      outlines.push({
         id: sharedView[i],
         name: names[i / OUTLINE_ARRAY_SIZE],
         count: sharedView[i + 1],
-        x,
-        y,
-        width,
-        height,
-        frame: 0,
-        targetX: x,
-        targetY: y,
-        targetWidth: width,
-        targetHeight: height,
-        didCommit,
-      };
-      const key = String(outline.id);
-
-      const existingOutline = activeOutlines.get(key);
-      if (existingOutline) {
-        existingOutline.count++;
-        existingOutline.frame = 0;
-        existingOutline.targetX = x;
-        existingOutline.targetY = y;
-        existingOutline.targetWidth = width;
-        existingOutline.targetHeight = height;
-        existingOutline.didCommit = didCommit;
-      } else {
-        activeOutlines.set(key, outline);
-      }
+        x: sharedView[i + 2],
+        y: sharedView[i + 3],
+        width: sharedView[i + 4],
+        height: sharedView[i + 5],
+        didCommit: sharedView[i + 6] as 0 | 1,
+        unnecessary: sharedView[i + 7] as 0 | 1,
+        overBudget: sharedView[i + 8] as 0 | 1,
+        selfTime: sharedView[i + 9],
+        compiled: sharedView[i + 10] as 0 | 1,
+        remounted: sharedView[i + 11] as 0 | 1,
+      });
     }
+    // shared with the main thread canvas, so both merge outlines the same way
+    updateOutlines(activeOutlines, outlines);
 
     if (!animationFrameId) {
       animationFrameId = requestAnimationFrame(draw);
@@ -96,13 +95,14 @@ self.onmessage = (event) => {
     return;
   }
 
+  if (type === 'clear') {
+    activeOutlines.clear();
+    draw();
+    return;
+  }
+
   if (type === 'scroll') {
     const { deltaX, deltaY } = event.data;
-    for (const outline of activeOutlines.values()) {
-      const newX = outline.x - deltaX;
-      const newY = outline.y - deltaY;
-      outline.targetX = newX;
-      outline.targetY = newY;
-    }
+    updateScroll(activeOutlines, deltaX, deltaY);
   }
 };
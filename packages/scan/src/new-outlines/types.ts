@@ -7,6 +7,11 @@ export interface OutlineData {
   width: number;
   height: number;
   didCommit: 0 | 1;
+  unnecessary: 0 | 1;
+  overBudget: 0 | 1;
+  selfTime: number;
+  compiled: 0 | 1;
+  remounted: 0 | 1;
 }
 
 export type InlineOutlineData = [
@@ -38,6 +43,26 @@ export type InlineOutlineData = [
    * didCommit
    */
   0 | 1,
+  /**
+   * unnecessary
+   */
+  0 | 1,
+  /**
+   * overBudget
+   */
+  0 | 1,
+  /**
+   * selfTime
+   */
+  number,
+  /**
+   * compiled
+   */
+  0 | 1,
+  /**
+   * remounted
+   */
+  0 | 1,
 ];
 
 export interface ActiveOutline {
@@ -54,6 +79,11 @@ export interface ActiveOutline {
   targetHeight: number;
   frame: number;
   didCommit: 1 | 0;
+  unnecessary: 1 | 0;
+  overBudget: 1 | 0;
+  selfTime: number;
+  compiled: 1 | 0;
+  remounted: 1 | 0;
 }
 
 export interface BlueprintOutline {
@@ -61,6 +91,18 @@ export interface BlueprintOutline {
   count: number;
   elements: Element[];
   didCommit: 1 | 0;
+  unnecessary: 1 | 0;
+  overBudget: 1 | 0;
+  selfTime: number;
+  // auto-memoized by the React Compiler
+  compiled: 1 | 0;
+  // keeps unmounting and mounting again at the same position
+  remounted: 1 | 0;
+}
+
+// a blueprint kept after its flush, so the commit timeline can replay it
+export interface RecordedOutline extends BlueprintOutline {
+  id: number;
 }
 
 declare global {
@@ -1,3 +1,4 @@
+import { resolve } from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { transform } from './utils';
 
@@ -874,4 +875,19 @@ describe('edge cases', () => {
     //   "InheritedComponent.displayName = 'InheritedComponent'",
     // );
   });
+
+  it('adds the source location of components when asked to', async () => {
+    const input = `
+      const Header = () => <header />
+    `;
+    const result = await transform(input, {
+      flags: { sourceLocations: true },
+    });
+    expect(result).toContain(
+      `Header.__reactScanSource = {\n    fileName: '${resolve('test.tsx')}',\n    lineNumber: 2,\n    columnNumber: 7\n  }`,
+    );
+
+    const withoutSource = await transform(input);
+    expect(withoutSource).not.toContain('__reactScanSource');
+  });
 });
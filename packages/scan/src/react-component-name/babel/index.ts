@@ -1,3 +1,4 @@
+import { resolve } from 'node:path';
 import type { NodePath, PluginObj } from '@babel/core';
 import * as t from '@babel/types';
 import type { Options } from '../core/options';
@@ -36,36 +37,77 @@ function isValidFunction(
   return t.isArrowFunctionExpression(node) || t.isFunctionExpression(node);
 }
 
+interface SourceLocation {
+  fileName: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+// read by the inspector to open the component in an editor
+const SOURCE_PROPERTY = '__reactScanSource';
+
+function getSourceLocation(
+  statement: NodePath<t.Statement>,
+  fileName: string | null,
+): SourceLocation | null {
+  const loc = statement.node.loc;
+  if (!fileName || !loc) {
+    return null;
+  }
+  return {
+    fileName,
+    lineNumber: loc.start.line,
+    // 1-based, like the locations of the jsx source transform
+    columnNumber: loc.start.column + 1,
+  };
+}
+
 function assignDisplayName(
   statement: NodePath<t.Statement>,
   name: string,
   dontAddTryCatch = false,
+  source: SourceLocation | null = null,
 ): void {
-  if (dontAddTryCatch) {
-    statement.insertAfter([
+  const assignments = [
+    t.expressionStatement(
+      t.assignmentExpression(
+        '=',
+        t.memberExpression(t.identifier(name), t.identifier('displayName')),
+        t.stringLiteral(name),
+      ),
+    ),
+  ];
+  if (source) {
+    assignments.push(
       t.expressionStatement(
         t.assignmentExpression(
           '=',
-          t.memberExpression(t.identifier(name), t.identifier('displayName')),
-          t.stringLiteral(name),
+          t.memberExpression(t.identifier(name), t.identifier(SOURCE_PROPERTY)),
+          t.objectExpression([
+            t.objectProperty(
+              t.identifier('fileName'),
+              t.stringLiteral(source.fileName),
+            ),
+            t.objectProperty(
+              t.identifier('lineNumber'),
+              t.numericLiteral(source.lineNumber),
+            ),
+            t.objectProperty(
+              t.identifier('columnNumber'),
+              t.numericLiteral(source.columnNumber),
+            ),
+          ]),
         ),
       ),
-    ]);
+    );
+  }
+
+  if (dontAddTryCatch) {
+    statement.insertAfter(assignments);
   } else {
     statement.insertAfter([
       t.tryStatement(
-        t.blockStatement([
-          t.expressionStatement(
-            t.assignmentExpression(
-              '=',
-              t.memberExpression(
-                t.identifier(name),
-                t.identifier('displayName'),
-              ),
-              t.stringLiteral(name),
-            ),
-          ),
-        ]),
+        t.blockStatement(assignments),
         t.catchClause(t.identifier('error'), t.blockStatement([])),
       ),
     ]);
@@ -233,8 +275,16 @@ function isReactComponent(
 export const reactScanComponentNamePlugin = (options?: Options): PluginObj => ({
   name: 'react-scan/component-name',
   visitor: {
-    Program(path) {
+    Program(path, state) {
       const assignedNames = getAssignedDisplayNames(path);
+      // source locations are a development aid, keep file paths out of production bundles.
+      // absolute like _debugSource, so the editor endpoint doesn't depend on the bundler's root
+      const fileName =
+        !options?.flags?.sourceLocations ||
+        process.env.NODE_ENV === 'production' ||
+        !state.filename
+          ? null
+          : resolve(state.cwd, state.filename);
       path.traverse({
         ClassDeclaration(path) {
           if (isReactClassComponent(path)) {
@@ -245,7 +295,12 @@ export const reactScanComponentNamePlugin = (options?: Options): PluginObj => ({
             if (assignedNames.has(name)) {
               return;
             }
-            assignDisplayName(path, name, options?.flags?.noTryCatchDisplayNames);
+            assignDisplayName(
+              path,
+              name,
+              options?.flags?.noTryCatchDisplayNames,
+              getSourceLocation(path, fileName),
+            );
           }
         },
         FunctionDeclaration(path) {
@@ -268,7 +323,12 @@ export const reactScanComponentNamePlugin = (options?: Options): PluginObj => ({
             if (assignedNames.has(name)) {
               return;
             }
-            assignDisplayName(path, name, options?.flags?.noTryCatchDisplayNames);
+            assignDisplayName(
+              path,
+              name,
+              options?.flags?.noTryCatchDisplayNames,
+              getSourceLocation(path, fileName),
+            );
           }
         },
         VariableDeclarator(path) {
@@ -291,6 +351,7 @@ export const reactScanComponentNamePlugin = (options?: Options): PluginObj => ({
                 path.parentPath,
                 name,
                 options?.flags?.noTryCatchDisplayNames,
+                getSourceLocation(path.parentPath, fileName),
               );
             }
           }
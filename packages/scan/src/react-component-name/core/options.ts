@@ -8,6 +8,9 @@ export interface Options {
     noTryCatchDisplayNames?: boolean;
     noStyledComponents?: boolean;
     noCreateContext?: boolean;
+    // assign the absolute file path and location of each component, for the
+    // inspector to open it in an editor, never outside of development
+    sourceLocations?: boolean;
     ignoreComponentSubstrings?: Array<string>;
   };
 }
@@ -1,4 +1,8 @@
 import { signal } from '@preact/signals';
+import type { Fiber } from 'bippy';
+import type { RecordedOutline } from 'src/new-outlines/types';
+import type { LaneClass } from '~core/lanes';
+import type { SuspenseFallback } from '~core/suspense';
 import {
   LOCALSTORAGE_KEY,
   MIN_CONTAINER_WIDTH,
@@ -80,16 +84,73 @@ export const updateDimensions = (): void => {
   };
 };
 
+// slow downs are kept for the whole session, so they only hold weak
+// references to the fibers they focus
+export interface SlowDownComponent {
+  name: string;
+  count: number;
+  selfTime: number;
+  // latest fiber seen for this component, used to focus it in the inspector
+  fiber: WeakRef<Fiber>;
+}
+
+export interface SlowDown {
+  id: string;
+  kind: 'interaction' | 'long-frame';
+  startTime: number;
+  duration: number;
+  timestamp: number;
+  target: string | null;
+  targetFiber: WeakRef<Fiber> | null;
+  components: Array<SlowDownComponent>;
+}
+
 export interface SlowDowns {
+  // slow interactions, the toolbar notification counts these
   slowDowns: number;
+  // long frames are listed too, but don't show up as slow interactions
+  longFrames: number;
   hideNotification: boolean;
+  entries: Array<SlowDown>;
 }
 
 export const signalSlowDowns = signal<SlowDowns>({
   slowDowns: 0,
+  longFrames: 0,
   hideNotification: false,
+  entries: [],
 });
 
+// stored commits only hold weak references, so they don't keep unmounted
+// fibers and removed elements alive
+export interface CommitComponent {
+  name: string;
+  count: number;
+  selfTime: number;
+  // latest fiber rendered for this component, used to focus it in the inspector
+  fiber: WeakRef<Fiber>;
+}
+
+export interface CommitOutline extends Omit<RecordedOutline, 'elements'> {
+  elements: Array<WeakRef<Element>>;
+}
+
+export interface Commit {
+  id: number;
+  timestamp: number;
+  // sum of the self times of every fiber rendered in the commit
+  duration: number;
+  fiberCount: number;
+  // sorted by self time
+  components: Array<CommitComponent>;
+  outlines: Array<CommitOutline>;
+  lane: LaneClass | null;
+  // boundaries that revealed their content again in the commit
+  suspense: Array<SuspenseFallback>;
+}
+
+export const signalCommits = signal<Array<Commit>>([]);
+
 export type WidgetStates =
   | {
       view: 'none';
@@ -106,6 +167,10 @@ export type WidgetStates =
       view: 'slow-downs';
       // extra params
     }
+  | {
+      view: 'commits';
+      // extra params
+    }
   | {
       view: 'summary';
       // extra params
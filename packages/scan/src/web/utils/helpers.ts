@@ -9,6 +9,7 @@ import {
 } from 'bippy';
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getOwnedProviders } from '~core/context-fan-out';
 
 export const cn = (...inputs: Array<ClassValue>): string => {
   return twMerge(clsx(inputs));
@@ -88,7 +89,14 @@ export const toggleMultipleClasses = (
 };
 
 interface WrapperBadge {
-  type: 'memo' | 'forwardRef' | 'lazy' | 'suspense' | 'profiler' | 'strict';
+  type:
+    | 'memo'
+    | 'forwardRef'
+    | 'lazy'
+    | 'suspense'
+    | 'profiler'
+    | 'strict'
+    | 'provider';
   title: string;
   compiler?: boolean;
 }
@@ -168,6 +176,13 @@ export const getExtendedDisplayName = (fiber: Fiber): ExtendedDisplayName => {
     });
   }
 
+  if (getOwnedProviders(fiber).length) {
+    wrapperTypes.push({
+      type: 'provider',
+      title: 'Component that provides a context value to its subtree',
+    });
+  }
+
   if (typeof name === 'string') {
     const wrapperRegex = /^(\w+)\((.*)\)$/;
     let currentName = name;
@@ -1,12 +1,20 @@
 // @ts-nocheck
+import type { Fiber } from 'bippy';
+import { describeStoreSubscription } from '~core/external-stores';
 import { ChangeReason, type Render } from '~core/instrumentation';
+import {
+  type SuspenseFallback,
+  describeSuspenseFallback,
+} from '~core/suspense';
+import { getUnstablePropSuggestion } from '~core/unstable-props';
 import { getLabelText } from '~core/utils';
 
-export const log = (renders: Array<Render>) => {
+export const log = (fiber: Fiber, renders: Array<Render>) => {
   const logMap = new Map<
     string,
     Array<{ prev: unknown; next: unknown; type: string; unstable?: boolean }>
   >();
+  const suggestionsMap = new Map<string, Array<string>>();
   for (let i = 0, len = renders.length; i < len; i++) {
     const render = renders[i];
 
@@ -14,7 +22,7 @@ export const log = (renders: Array<Render>) => {
 
     const changeLog = logMap.get(render.componentName) ?? [];
     renders;
-    const labelText = getLabelText([
+    const label = getLabelText([
       {
         aggregatedCount: 1,
 
@@ -31,25 +39,45 @@ export const log = (renders: Array<Render>) => {
         computedCurrent: null,
       },
     ]);
-    if (!labelText) continue;
+    if (!label) continue;
+    // tells urgent renders apart from the ones in a transition or deferred commit
+    const labelText = render.lane ? `${label} [${render.lane}]` : label;
 
     let prevChangedProps: Record<string, unknown> | null = null;
     let nextChangedProps: Record<string, unknown> | null = null;
 
     if (render.changes) {
       for (let i = 0, len = render.changes.length; i < len; i++) {
-        const { name, prevValue, nextValue, unstable, type } =
-          render.changes[i];
+        const {
+          name,
+          prevValue,
+          value: nextValue,
+          unstable,
+          type,
+          store,
+        } = render.changes[i];
         if (type === ChangeReason.Props) {
           prevChangedProps ??= {};
           nextChangedProps ??= {};
           prevChangedProps[`${unstable ? '⚠️' : ''}${name} (prev)`] = prevValue;
           nextChangedProps[`${unstable ? '⚠️' : ''}${name} (next)`] = nextValue;
+          if (unstable) {
+            const suggestions = suggestionsMap.get(labelText) ?? [];
+            suggestions.push(
+              `${name} is unstable. ${getUnstablePropSuggestion(fiber, name, nextValue)}`,
+            );
+            suggestionsMap.set(labelText, suggestions);
+          }
         } else {
           changeLog.push({
             prev: prevValue,
             next: nextValue,
-            type: type === ChangeReason.Context ? 'context' : 'state',
+            type:
+              type === ChangeReason.Context
+                ? 'context'
+                : store
+                  ? `store ${describeStoreSubscription(store)}`
+                  : 'state',
             unstable: unstable ?? false,
           });
         }
@@ -77,11 +105,25 @@ export const log = (renders: Array<Render>) => {
       // biome-ignore lint/suspicious/noConsole: Intended debug output
       console.log(`${type}:`, unstable ? '⚠️' : '', prev, '!==', next);
     }
+    for (const suggestion of suggestionsMap.get(name) ?? []) {
+      // biome-ignore lint/suspicious/noConsole: Intended debug output
+      console.log(`⚠️ ${suggestion}`);
+    }
     // biome-ignore lint/suspicious/noConsole: Intended debug output
     console.groupEnd();
   }
 };
 
+export const logSuspenseFallbacks = (fallbacks: Array<SuspenseFallback>) => {
+  for (const fallback of fallbacks) {
+    // biome-ignore lint/suspicious/noConsole: Intended debug output
+    console.log(
+      `%c${describeSuspenseFallback(fallback)}`,
+      'background: hsla(0,0%,70%,.3); border-radius:3px; padding: 0 2px;',
+    );
+  }
+};
+
 export const logIntro = () => {
   if (window.hideIntro) {
     window.hideIntro = undefined;
@@ -0,0 +1,122 @@
+import type { Fiber } from 'bippy';
+
+export interface ComponentSource {
+  fileName: string;
+  lineNumber: number;
+  columnNumber?: number;
+}
+
+// served by the dev server middleware of vite-plugin-react-scan
+const OPEN_IN_EDITOR_ENDPOINT = '/__react-scan/open-in-editor';
+
+// matches "at App (http://localhost:5173/src/App.tsx?t=1:12:7)" and "App@http://localhost:5173/src/App.tsx:12:7"
+const STACK_FRAME_REGEX = /(https?:\/\/[^\s)]+):(\d+):(\d+)/;
+
+const getUrlFileName = (url: string) => {
+  try {
+    const { pathname } = new URL(url);
+    const fileName = decodeURIComponent(pathname);
+    // vite serves files outside of the project root from /@fs/<absolute path>
+    if (fileName.startsWith('/@fs/')) return fileName.slice('/@fs'.length);
+    return fileName.slice(1);
+  } catch {
+    return null;
+  }
+};
+
+export interface StackFrame extends ComponentSource {
+  // null for anonymous functions
+  functionName: string | null;
+}
+
+// "at async useCartSync (" in chrome, "useCartSync/<@" in firefox
+const FUNCTION_NAME_REGEX =
+  /^\s*(?:at\s+(?:async\s+)?(?<v8>[^\s(]+)\s+\(|(?<firefox>[^@\s]+)@)/;
+
+const getFunctionName = (line: string) => {
+  const groups = line.match(FUNCTION_NAME_REGEX)?.groups;
+  const name = (groups?.v8 ?? groups?.firefox)?.replace(/\/<$/, '');
+  if (!name || name.includes('<anonymous>')) return null;
+  // drop the receiver, e.g. "Object.useCartSync"
+  return name.slice(name.lastIndexOf('.') + 1) || null;
+};
+
+/**
+ * The frames of a stack that point to the app's own files, dependencies are skipped
+ */
+export const getStackFrames = (stack: string): Array<StackFrame> => {
+  const frames: Array<StackFrame> = [];
+  for (const line of stack.split('\n')) {
+    if (line.includes('/node_modules/')) continue;
+
+    const match = line.match(STACK_FRAME_REGEX);
+    if (!match) continue;
+
+    const fileName = getUrlFileName(match[1]);
+    if (!fileName) continue;
+    frames.push({
+      functionName: getFunctionName(line),
+      fileName,
+      lineNumber: Number(match[2]),
+      columnNumber: Number(match[3]),
+    });
+  }
+  return frames;
+};
+
+// since react 19 fibers keep the stack of the jsx call instead of _debugSource
+const getStackSource = (stack: string): ComponentSource | null =>
+  getStackFrames(stack)[0] ?? null;
+
+interface DebugFiber {
+  _debugSource?: ComponentSource | null;
+  _debugStack?: Error | null;
+}
+
+/**
+ * Where the component is rendered, or defined when only the source locations
+ * of the react-component-name plugin are available
+ */
+export const getFiberSource = (fiber: Fiber): ComponentSource | null => {
+  const { _debugSource, _debugStack } = fiber as DebugFiber;
+  if (_debugSource?.fileName) {
+    return _debugSource;
+  }
+
+  if (_debugStack?.stack) {
+    const source = getStackSource(_debugStack.stack);
+    if (source) return source;
+  }
+
+  // the plugin assigns the location to the variable, which is the memo() wrapper for memoized components
+  for (const type of [fiber.type, fiber.elementType]) {
+    if (type && (typeof type === 'object' || typeof type === 'function')) {
+      const source = (type as { __reactScanSource?: ComponentSource })
+        .__reactScanSource;
+      if (source) return source;
+    }
+  }
+
+  return null;
+};
+
+export const formatSource = ({ fileName, lineNumber }: ComponentSource) =>
+  `${fileName}:${lineNumber}`;
+
+export const openInEditor = async (source: ComponentSource) => {
+  const params = new URLSearchParams({
+    file: source.fileName,
+    line: String(source.lineNumber),
+    column: String(source.columnNumber ?? 1),
+  });
+
+  try {
+    const response = await fetch(`${OPEN_IN_EDITOR_ENDPOINT}?${params}`);
+    if (response.ok) return;
+  } catch {}
+
+  // biome-ignore lint/suspicious/noConsole: Intended debug output
+  console.warn(
+    `[React Scan] Couldn't open ${formatSource(source)} in the editor, add vite-plugin-react-scan to the dev server`,
+  );
+};
@@ -1,18 +1,33 @@
-import type { Fiber } from 'bippy';
+import { signal } from '@preact/signals';
+import { type Fiber, getDisplayName, isCompositeFiber } from 'bippy';
 import { Store } from '~core/index';
 import { findComponentDOMNode } from '~web/views/inspector/utils';
-import { readLocalStorage } from './helpers';
+import {
+  onIdle,
+  readLocalStorage,
+  removeLocalStorage,
+  saveLocalStorage,
+} from './helpers';
 
 export interface FiberMetadata {
   componentName: string;
   parent: string;
   position: number;
+  key: string | null;
   sibling: string | null;
   path: string;
   propKeys: string[];
 }
 
-const metadata = readLocalStorage<FiberMetadata>('react-scann-pinned');
+const PINNED_STORAGE_KEY = 'react-scan-pinned';
+
+export const signalPinnedMetadata = signal<FiberMetadata | null>(
+  readLocalStorage<FiberMetadata>(PINNED_STORAGE_KEY),
+);
+
+// only look for the pinned component after a reload or when it was remounted,
+// otherwise every render of it would steal the focus back
+let shouldRestore = signalPinnedMetadata.value !== null;
 
 export const getFiberPath = (fiber: Fiber): string => {
   const pathSegments: string[] = [];
@@ -37,57 +52,111 @@ export const getFiberPath = (fiber: Fiber): string => {
   return pathSegments.join('::');
 };
 
-export const getFiberMetadata = (fiber: Fiber): FiberMetadata | null => {
-  if (!fiber || !fiber.elementType) return null;
-
-  const componentName = fiber.elementType.name || 'UnknownComponent';
-  const position = fiber.index !== undefined ? fiber.index : -1;
-  const sibling = fiber.sibling?.elementType?.name || null;
-
+const getParentName = (fiber: Fiber) => {
   let parentFiber = fiber.return;
-  let parent = 'Root';
-
   while (parentFiber) {
-    const parentName = parentFiber.elementType?.name;
-
-    if (typeof parentName === 'string' && parentName.trim().length > 0) {
-      parent = parentName;
-      break;
+    if (isCompositeFiber(parentFiber)) {
+      const parentName = getDisplayName(parentFiber.type);
+      if (parentName) return parentName;
     }
-
     parentFiber = parentFiber.return;
   }
+  return 'Root';
+};
 
-  const path = getFiberPath(fiber);
-
-  const propKeys = fiber.pendingProps
-    ? Object.keys(fiber.pendingProps).filter((key) => key !== 'children')
+const getPropKeys = (fiber: Fiber) =>
+  fiber.memoizedProps
+    ? Object.keys(fiber.memoizedProps)
+        .filter((key) => key !== 'children')
+        .sort()
     : [];
 
-  return { componentName, parent, position, sibling, path, propKeys };
+export const getFiberMetadata = (fiber: Fiber): FiberMetadata | null => {
+  if (!fiber || !fiber.elementType) return null;
+
+  const componentName = getDisplayName(fiber.type) || 'UnknownComponent';
+  const position = fiber.index !== undefined ? fiber.index : -1;
+  const sibling = fiber.sibling ? getDisplayName(fiber.sibling.type) : null;
+
+  return {
+    componentName,
+    parent: getParentName(fiber),
+    position,
+    key: fiber.key,
+    sibling,
+    path: getFiberPath(fiber),
+    propKeys: getPropKeys(fiber),
+  };
 };
 
-const checkFiberMatch = (fiber: Fiber | undefined): boolean => {
-  if (!fiber || !fiber.elementType || !metadata?.componentName) return false;
+export const isFiberPinned = (fiber: Fiber) => {
+  const metadata = signalPinnedMetadata.value;
+  if (!metadata) return false;
+  const current = getFiberMetadata(fiber);
+  return (
+    current?.componentName === metadata.componentName &&
+    current.key === metadata.key &&
+    current.path === metadata.path
+  );
+};
 
-  if (fiber.elementType.name !== metadata.componentName) return false;
+export const pinFiber = (fiber: Fiber) => {
+  const metadata = getFiberMetadata(fiber);
+  if (!metadata) return;
+  saveLocalStorage(PINNED_STORAGE_KEY, metadata);
+  signalPinnedMetadata.value = metadata;
+  shouldRestore = false;
+};
 
-  let currentParentFiber = fiber.return;
-  let parent = '';
+export const unpinFiber = () => {
+  removeLocalStorage(PINNED_STORAGE_KEY);
+  signalPinnedMetadata.value = null;
+  shouldRestore = false;
+};
 
-  while (currentParentFiber) {
-    if (currentParentFiber.elementType?.name) {
-      parent = currentParentFiber.elementType.name;
-      break;
-    }
-    currentParentFiber = currentParentFiber.return;
+/**
+ * Starts looking for the pinned component again, e.g. when the focused
+ * element got removed because hot reloading remounted it
+ */
+export const restorePinnedFiber = () => {
+  if (signalPinnedMetadata.value) {
+    shouldRestore = true;
   }
+};
 
-  if (parent !== metadata.parent) return false;
-  if (fiber.index !== metadata.position) return false;
+// the path breaks ties between instances in the same parent, the prop keys
+// between renders of different elements at the same position
+const checkFiberMatch = (
+  fiber: Fiber,
+  metadata: FiberMetadata,
+): 'exact' | 'partial' | null => {
+  if (getDisplayName(fiber.type) !== metadata.componentName) return null;
+  if (fiber.key !== metadata.key) return null;
+  if (fiber.index !== metadata.position) return null;
+  if (getParentName(fiber) !== metadata.parent) return null;
+  if (getFiberPath(fiber) !== metadata.path) return null;
+
+  const propKeys = getPropKeys(fiber);
+  if (
+    propKeys.length === metadata.propKeys.length &&
+    propKeys.every((key, index) => key === metadata.propKeys[index])
+  ) {
+    return 'exact';
+  }
+  return 'partial';
+};
 
-  const fiberPath = getFiberPath(fiber);
-  return fiberPath === metadata.path;
+const focusFiber = (fiber: Fiber) => {
+  const componentElement = findComponentDOMNode(fiber);
+  if (!componentElement) return false;
+
+  shouldRestore = false;
+  Store.inspectState.value = {
+    kind: 'focused',
+    focusedDomElement: componentElement,
+    fiber,
+  };
+  return true;
 };
 
 const fiberQueue: Fiber[] = [];
@@ -97,32 +166,33 @@ const processFiberQueue = (): void => {
   if (isProcessing || fiberQueue.length === 0) return;
   isProcessing = true;
 
-  requestIdleCallback(() => {
-    while (fiberQueue.length > 0) {
-      const fiber = fiberQueue.shift();
-      if (fiber && checkFiberMatch(fiber)) {
-        // biome-ignore lint/suspicious/noConsole: Intended debug output
-        console.log('🎯 Pinned component found!', fiber);
-        isProcessing = false;
-
-        const componentElement = findComponentDOMNode(fiber);
-
-        if (!componentElement) return;
-
-        Store.inspectState.value = {
-          kind: 'focused',
-          focusedDomElement: componentElement,
-          fiber,
-        };
-        return;
-      }
-    }
+  onIdle(() => {
     isProcessing = false;
+    const metadata = signalPinnedMetadata.value;
+    const fibers = fiberQueue.splice(0);
+    if (!metadata || !shouldRestore) return;
+
+    let partialMatch: Fiber | null = null;
+    for (const fiber of fibers) {
+      const match = checkFiberMatch(fiber, metadata);
+      if (match === 'exact' && focusFiber(fiber)) return;
+      if (match === 'partial') partialMatch ??= fiber;
+    }
+
+    // the props of the component changed since it was pinned
+    if (partialMatch) {
+      focusFiber(partialMatch);
+    }
   });
 };
 
 export const enqueueFiber = (fiber: Fiber) => {
-  if (metadata === null || metadata.componentName !== fiber.elementType?.name) {
+  const metadata = signalPinnedMetadata.value;
+  if (
+    !shouldRestore ||
+    metadata === null ||
+    metadata.componentName !== getDisplayName(fiber.type)
+  ) {
     return;
   }
 
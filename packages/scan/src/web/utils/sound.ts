@@ -0,0 +1,30 @@
+import type { Render } from '~core/instrumentation';
+import { playGeigerClickSound } from './geiger';
+
+// renders faster than this click at the base volume
+const RENDER_TIME_THRESHOLD = 10;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only allow audio to start from a user gesture, so this has to run
+ * in the handler that turns sound (or scanning with sound) on
+ */
+export const resumeAudioContext = () => {
+  if (typeof AudioContext === 'undefined') return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === 'suspended') {
+    void audioContext.resume();
+  }
+};
+
+export const playRenderSound = (render: Render) => {
+  // a context created outside a user gesture would stay suspended
+  if (audioContext?.state !== 'running') return;
+
+  const amplitude = Math.min(
+    1,
+    ((render.time ?? 0) - RENDER_TIME_THRESHOLD) / (RENDER_TIME_THRESHOLD * 2),
+  );
+  playGeigerClickSound(audioContext, amplitude);
+};
@@ -0,0 +1,11 @@
+import { Icon } from '~web/components/icon';
+import { cn } from '~web/utils/helpers';
+
+export const HeaderCommits = () => {
+  return (
+    <div className={cn('absolute inset-0 flex items-center gap-x-2')}>
+      <Icon name="icon-commits" />
+      Commits
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import { useCallback, useState } from 'preact/hooks';
+import { replayOutlines } from 'src/new-outlines';
+import type { LaneClass } from '~core/lanes';
+import { describeSuspenseCause } from '~core/suspense';
+import { Icon } from '~web/components/icon';
+import { Slider } from '~web/components/slider';
+import { type Commit, signalCommits, signalWidgetViews } from '~web/state';
+import { cn } from '~web/utils/helpers';
+import { clearCommits, getReplayOutlines } from './utils';
+
+const MAX_TOP_COMPONENTS = 10;
+// a commit that takes longer than a frame is worth looking at
+const SLOW_COMMIT_MS = 16;
+
+// urgent commits keep the default color, the ones react could interrupt stand out
+const LANE_COLORS: Partial<Record<LaneClass, string>> = {
+  transition: 'bg-sky-500',
+  deferred: 'bg-teal-500',
+  hydration: 'bg-amber-500',
+};
+
+const formatTime = (time: number) =>
+  time < 0.1 - Number.EPSILON ? '< 0.1ms' : `${Number(time.toFixed(1))}ms`;
+
+const CommitBar = ({
+  commit,
+  maxDuration,
+  isSelected,
+  onSelect,
+}: {
+  commit: Commit;
+  maxDuration: number;
+  isSelected: boolean;
+  onSelect: (commit: Commit) => void;
+}) => {
+  const handleClick = useCallback(() => {
+    onSelect(commit);
+  }, [commit, onSelect]);
+
+  const height = maxDuration
+    ? Math.max(4, Math.round((commit.duration / maxDuration) * 100))
+    : 4;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title={`${formatTime(commit.duration)}, ${commit.fiberCount} rendered${commit.lane ? `, ${commit.lane}` : ''}`}
+      className="flex-1 min-w-[2px] max-w-3 h-full flex items-end"
+    >
+      <span
+        className={cn(
+          'w-full rounded-t-sm',
+          commit.duration >= SLOW_COMMIT_MS
+            ? 'bg-red-400'
+            : ((commit.lane && LANE_COLORS[commit.lane]) ?? 'bg-[#5f3f9a]'),
+          isSelected && 'bg-white',
+        )}
+        style={{ height: `${height}%` }}
+      />
+    </button>
+  );
+};
+
+const CommitDetails = ({ commit }: { commit: Commit }) => {
+  const { timestamp, duration, fiberCount, components, lane, suspense } =
+    commit;
+
+  return (
+    <div className="flex flex-col gap-y-1.5 py-2 px-3">
+      <div className="flex items-center gap-x-2 text-xs">
+        <span
+          className={cn(
+            'font-bold',
+            duration >= SLOW_COMMIT_MS ? 'text-red-400' : 'text-yellow-300',
+          )}
+        >
+          {formatTime(duration)}
+        </span>
+        <span className="text-neutral-400">
+          {fiberCount} {fiberCount === 1 ? 'component' : 'components'} rendered
+        </span>
+        {lane && (
+          <span
+            title="The lane class React rendered the commit in"
+            className="px-1 rounded bg-[#222] text-neutral-300"
+          >
+            {lane}
+          </span>
+        )}
+        <span className="ml-auto text-neutral-500">
+          {new Date(timestamp).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className="flex flex-col">
+        {components.slice(0, MAX_TOP_COMPONENTS).map((component) => (
+          <div
+            key={component.name}
+            className="flex items-center gap-x-1 py-0.5 text-xs"
+          >
+            <span className="truncate text-[#A855F7]">{component.name}</span>
+            {component.count > 1 && (
+              <span className="text-neutral-500">×{component.count}</span>
+            )}
+            <span className="ml-auto text-neutral-500">
+              {formatTime(component.selfTime)}
+            </span>
+          </div>
+        ))}
+        {components.length > MAX_TOP_COMPONENTS && (
+          <span className="text-xs text-neutral-500">
+            and {components.length - MAX_TOP_COMPONENTS} more
+          </span>
+        )}
+      </div>
+      {suspense.length > 0 && (
+        <div className="flex flex-col">
+          {suspense.map((fallback) => (
+            <div
+              key={fallback.startTime}
+              className="flex items-center gap-x-1 py-0.5 text-xs"
+            >
+              <span className="shrink-0 text-neutral-300">
+                Suspense{fallback.boundary && ` in ${fallback.boundary}`}
+              </span>
+              <span className="truncate text-neutral-500">
+                waited on {describeSuspenseCause(fallback.cause)}
+              </span>
+              <span
+                title="How long the boundary showed its fallback"
+                className="ml-auto shrink-0 text-neutral-500"
+              >
+                {formatTime(fallback.duration)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ViewCommits = () => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const handleSelect = useCallback((commit: Commit) => {
+    setSelectedId(commit.id);
+    replayOutlines(getReplayOutlines(commit));
+  }, []);
+
+  const handleSliderChange = useCallback(
+    (e: Event) => {
+      const target = e.target as HTMLInputElement;
+      const commit = signalCommits.value[Number.parseInt(target.value, 10)];
+      if (commit) {
+        handleSelect(commit);
+      }
+    },
+    [handleSelect],
+  );
+
+  const handleClear = useCallback(() => {
+    setSelectedId(null);
+    clearCommits();
+  }, []);
+
+  // commits come in on every render, only subscribe while the view is open
+  if (signalWidgetViews.value.view !== 'commits') {
+    return null;
+  }
+
+  const commits = signalCommits.value;
+
+  if (!commits.length) {
+    return (
+      <div className="flex-1 p-3 text-xs text-neutral-500">
+        No commits recorded yet
+      </div>
+    );
+  }
+
+  // follow the latest commit until one is picked
+  let selectedIndex = commits.findIndex((commit) => commit.id === selectedId);
+  if (selectedIndex === -1) {
+    selectedIndex = commits.length - 1;
+  }
+  const selectedCommit = commits[selectedIndex];
+
+  let maxDuration = 0;
+  for (const commit of commits) {
+    maxDuration = Math.max(maxDuration, commit.duration);
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-y-auto">
+      <div className="flex items-center justify-between py-1 px-3 border-b border-[#222]">
+        <span className="text-xs text-neutral-500">
+          Scrub to replay the outlines of a commit
+        </span>
+        <button
+          type="button"
+          onClick={handleClear}
+          title="Clear commits"
+          className="flex items-center gap-x-1 text-xs text-neutral-400 hover:text-white"
+        >
+          <Icon name="icon-close" size={12} />
+          Clear
+        </button>
+      </div>
+      <div className="flex flex-col gap-y-2 py-2 px-3 border-b border-[#222]">
+        <div className="flex items-end gap-x-px h-12">
+          {commits.map((commit) => (
+            <CommitBar
+              key={commit.id}
+              commit={commit}
+              maxDuration={maxDuration}
+              isSelected={commit === selectedCommit}
+              onSelect={handleSelect}
+            />
+          ))}
+        </div>
+        {commits.length > 1 && (
+          <Slider
+            min={0}
+            max={commits.length - 1}
+            value={selectedIndex}
+            onChange={handleSliderChange}
+          />
+        )}
+      </div>
+      <CommitDetails commit={selectedCommit} />
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+// @vitest-environment jsdom
+import { type Fiber, getFiberId } from 'bippy';
+import { beforeEach, describe, expect, it } from 'vitest';
+// loaded first like in the entry, the widget state is part of an import cycle
+import '~core/index';
+import type { Render } from '~core/instrumentation';
+import { type Commit, signalCommits } from '~web/state';
+import {
+  MAX_COMMITS,
+  clearCommits,
+  finishCommit,
+  getReplayOutlines,
+  recordCommitRender,
+  startCommit,
+} from './utils';
+
+const FunctionComponentTag = 0;
+const HostComponentTag = 5;
+
+// bippy hands out id 0 first but doesn't treat it as assigned
+getFiberId({ tag: HostComponentTag, type: 'div' } as unknown as Fiber);
+
+const App = () => null;
+const Row = () => null;
+
+const createFiber = (type: unknown) => {
+  const host = {
+    tag: HostComponentTag,
+    type: 'div',
+    stateNode: document.createElement('div'),
+    child: null,
+    sibling: null,
+  };
+  return {
+    tag: FunctionComponentTag,
+    type,
+    flags: 0,
+    subtreeFlags: 0,
+    child: host,
+    sibling: null,
+  } as unknown as Fiber;
+};
+
+const createRender = (componentName: string, time: number) =>
+  ({
+    componentName,
+    time,
+    unnecessary: null,
+    overBudget: false,
+    remounted: false,
+    forget: false,
+  }) as Render;
+
+const getLastCommit = () => signalCommits.value[signalCommits.value.length - 1];
+
+describe('commits', () => {
+  beforeEach(() => {
+    clearCommits();
+  });
+
+  it('aggregates the renders of a commit per component', () => {
+    const app = createFiber(App);
+    const firstRow = createFiber(Row);
+    const secondRow = createFiber(Row);
+
+    startCommit();
+    recordCommitRender(app, createRender('App', 4));
+    recordCommitRender(firstRow, createRender('Row', 1));
+    recordCommitRender(secondRow, createRender('Row', 2));
+    recordCommitRender(secondRow, createRender('Row', 3));
+    finishCommit();
+
+    const commit = getLastCommit();
+    expect(commit).toMatchObject({ duration: 10, fiberCount: 4 });
+    expect(
+      commit.components.map(({ name, count, selfTime }) => ({
+        name,
+        count,
+        selfTime,
+      })),
+    ).toEqual([
+      { name: 'Row', count: 3, selfTime: 6 },
+      { name: 'App', count: 1, selfTime: 4 },
+    ]);
+    // one outline per fiber, a fiber rendered twice counts both renders
+    expect(commit.outlines.map(({ name, count }) => [name, count])).toEqual([
+      ['App', 1],
+      ['Row', 1],
+      ['Row', 2],
+    ]);
+  });
+
+  it('keeps the latest fiber of each component', () => {
+    const firstRow = createFiber(Row);
+    const secondRow = createFiber(Row);
+
+    startCommit();
+    recordCommitRender(firstRow, createRender('Row', 1));
+    recordCommitRender(secondRow, createRender('Row', 1));
+    finishCommit();
+
+    expect(getLastCommit().components[0].fiber.deref()).toBe(secondRow);
+  });
+
+  it('skips commits without renders', () => {
+    startCommit();
+    finishCommit();
+    expect(signalCommits.value).toEqual([]);
+  });
+
+  it(`keeps the latest ${MAX_COMMITS} commits`, () => {
+    const row = createFiber(Row);
+    for (let i = 0; i < MAX_COMMITS + 5; i++) {
+      startCommit();
+      recordCommitRender(row, createRender('Row', i));
+      finishCommit();
+    }
+
+    const commits = signalCommits.value;
+    expect(commits).toHaveLength(MAX_COMMITS);
+    expect(commits[0].duration).toBe(5);
+    expect(getLastCommit().duration).toBe(MAX_COMMITS + 4);
+  });
+
+  it('replays only the outlines whose elements are still around', () => {
+    startCommit();
+    recordCommitRender(createFiber(App), createRender('App', 1));
+    recordCommitRender(createFiber(Row), createRender('Row', 1));
+    finishCommit();
+
+    const commit = getLastCommit();
+    const [app, row] = commit.outlines;
+    const collected: Commit = {
+      ...commit,
+      outlines: [
+        app,
+        // what a garbage collected element leaves behind
+        { ...row, elements: [{ deref: () => undefined } as WeakRef<Element>] },
+      ],
+    };
+
+    const outlines = getReplayOutlines(collected);
+    expect(outlines).toHaveLength(1);
+    expect(outlines[0].elements).toEqual([app.elements[0].deref()]);
+  });
+});
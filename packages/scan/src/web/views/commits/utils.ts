@@ -0,0 +1,143 @@
+import {
+  type Fiber,
+  didFiberCommit,
+  getFiberId,
+  getNearestHostFibers,
+  isCompositeFiber,
+} from 'bippy';
+import type { RecordedOutline } from 'src/new-outlines/types';
+import type { Render } from '~core/instrumentation';
+import { getCommitLane } from '~core/lanes';
+import { getCommitSuspenseFallbacks } from '~core/suspense';
+import {
+  type Commit,
+  type CommitComponent,
+  type CommitOutline,
+  signalCommits,
+} from '~web/state';
+
+export const MAX_COMMITS = 100;
+
+interface PendingCommit {
+  timestamp: number;
+  duration: number;
+  fiberCount: number;
+  components: Map<string, CommitComponent>;
+  outlines: Map<Fiber, CommitOutline>;
+}
+
+let pendingCommit: PendingCommit | null = null;
+let lastCommitId = 0;
+
+export const startCommit = () => {
+  pendingCommit = {
+    timestamp: Date.now(),
+    duration: 0,
+    fiberCount: 0,
+    components: new Map(),
+    outlines: new Map(),
+  };
+};
+
+export const recordCommitRender = (fiber: Fiber, render: Render) => {
+  if (!pendingCommit || !render.componentName || !isCompositeFiber(fiber)) {
+    return;
+  }
+
+  const selfTime = render.time ?? 0;
+  pendingCommit.duration += selfTime;
+  pendingCommit.fiberCount++;
+
+  const component = pendingCommit.components.get(render.componentName);
+  if (component) {
+    component.count++;
+    component.selfTime += selfTime;
+    component.fiber = new WeakRef(fiber);
+  } else {
+    pendingCommit.components.set(render.componentName, {
+      name: render.componentName,
+      count: 1,
+      selfTime,
+      fiber: new WeakRef(fiber),
+    });
+  }
+
+  // same shape as the blueprints of the live outlines, so replaying a commit
+  // draws what was drawn when it happened
+  const outline = pendingCommit.outlines.get(fiber);
+  if (outline) {
+    outline.count++;
+    outline.selfTime += selfTime;
+    if (!render.unnecessary) {
+      outline.unnecessary = 0;
+    }
+    if (render.overBudget) {
+      outline.overBudget = 1;
+    }
+    if (render.remounted) {
+      outline.remounted = 1;
+    }
+    return;
+  }
+
+  pendingCommit.outlines.set(fiber, {
+    id: getFiberId(fiber),
+    name: render.componentName,
+    count: 1,
+    elements: getNearestHostFibers(fiber).map(
+      (hostFiber) => new WeakRef(hostFiber.stateNode),
+    ),
+    didCommit: didFiberCommit(fiber) ? 1 : 0,
+    unnecessary: render.unnecessary ? 1 : 0,
+    overBudget: render.overBudget ? 1 : 0,
+    selfTime,
+    compiled: render.forget ? 1 : 0,
+    remounted: render.remounted ? 1 : 0,
+  });
+};
+
+export const finishCommit = () => {
+  const commit = pendingCommit;
+  pendingCommit = null;
+  const suspense = getCommitSuspenseFallbacks();
+  // a revealed boundary is worth a commit even when no component rendered
+  if (!commit || (!commit.fiberCount && !suspense.length)) return;
+
+  const entry: Commit = {
+    id: ++lastCommitId,
+    timestamp: commit.timestamp,
+    duration: commit.duration,
+    fiberCount: commit.fiberCount,
+    components: Array.from(commit.components.values()).sort(
+      (a, b) => b.selfTime - a.selfTime || b.count - a.count,
+    ),
+    outlines: Array.from(commit.outlines.values()),
+    lane: getCommitLane(),
+    suspense,
+  };
+
+  // oldest first, the timeline reads left to right
+  signalCommits.value = [...signalCommits.value, entry].slice(-MAX_COMMITS);
+};
+
+/**
+ * The outlines of a commit whose elements are still around to draw on
+ */
+export const getReplayOutlines = (commit: Commit): Array<RecordedOutline> => {
+  const outlines: Array<RecordedOutline> = [];
+  for (const outline of commit.outlines) {
+    const elements: Array<Element> = [];
+    for (const ref of outline.elements) {
+      const element = ref.deref();
+      if (element) elements.push(element);
+    }
+    if (elements.length) {
+      outlines.push({ ...outline, elements });
+    }
+  }
+  return outlines;
+};
+
+export const clearCommits = () => {
+  signalCommits.value = [];
+};
@@ -4,8 +4,11 @@ import { Store } from '~core/index';
 import { signalWidgetViews } from '~web/state';
 import { cn } from '~web/utils/helpers';
 import { Header } from '~web/widget/header';
+import { ViewCommits } from './commits';
 import { ViewInspector } from './inspector';
+import { ViewSettings } from './settings';
 import { ViewSlowDowns } from './slow-downs';
+import { ViewSummary } from './summary';
 import { Toolbar } from './toolbar';
 
 export const Content = () => {
@@ -69,6 +72,30 @@ export const Content = () => {
           >
             <ViewSlowDowns />
           </ContentView>
+
+          <ContentView
+            isOpen={useComputed(
+              () => signalWidgetViews.value.view === 'commits',
+            )}
+          >
+            <ViewCommits />
+          </ContentView>
+
+          <ContentView
+            isOpen={useComputed(
+              () => signalWidgetViews.value.view === 'summary',
+            )}
+          >
+            <ViewSummary />
+          </ContentView>
+
+          <ContentView
+            isOpen={useComputed(
+              () => signalWidgetViews.value.view === 'settings',
+            )}
+          >
+            <ViewSettings />
+          </ContentView>
         </div>
       </div>
       <Toolbar />
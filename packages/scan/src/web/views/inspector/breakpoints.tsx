@@ -0,0 +1,188 @@
+import { getDisplayName } from 'bippy';
+import { memo } from 'preact/compat';
+import { useCallback, useState } from 'preact/hooks';
+import {
+  type BreakpointCondition,
+  type ChangeTypeName,
+  type RenderBreakpoint,
+  addBreakpoint,
+  describeBreakpointCondition,
+  removeBreakpoint,
+  signalBreakpoints,
+} from '~core/breakpoints';
+import { Icon } from '~web/components/icon';
+import { cn } from '~web/utils/helpers';
+import { type TimelineUpdate, timelineState } from './states';
+
+type ConditionKind = 'render' | ChangeTypeName | 'self-time';
+
+const CONDITION_KINDS: Array<{ kind: ConditionKind; label: string }> = [
+  { kind: 'render', label: 'Any render' },
+  { kind: 'props', label: 'Prop changed' },
+  { kind: 'state', label: 'State changed' },
+  { kind: 'context', label: 'Context changed' },
+  { kind: 'self-time', label: 'Self time over' },
+];
+
+const DEFAULT_MIN_SELF_TIME = 5;
+
+interface ChangeOption {
+  name: string;
+  label: string;
+}
+
+const getChangeOptions = (
+  update: TimelineUpdate | undefined,
+  changeType: ChangeTypeName,
+): Array<ChangeOption> => {
+  if (!update) return [];
+  const section = update[changeType];
+  return section.current.map(({ name }) => ({
+    name: String(name),
+    // function components list their state by hook index
+    label:
+      typeof name === 'number'
+        ? update.stateNames[name] || `#${name}`
+        : String(name),
+  }));
+};
+
+const inputClassName = cn(
+  'h-6 px-1.5 rounded',
+  'border border-transparent focus:border-[#454545]',
+  'bg-[#1e1e1e] text-xs text-neutral-300',
+  'outline-none',
+);
+
+const BreakpointItem = ({ breakpoint }: { breakpoint: RenderBreakpoint }) => (
+  <div className="flex items-center gap-x-1.5 text-xs">
+    <span
+      className={cn(
+        'w-2 h-2 shrink-0 rounded-full',
+        breakpoint.enabled ? 'bg-red-500' : 'bg-neutral-600',
+      )}
+    />
+    <span
+      className={cn(
+        'truncate',
+        breakpoint.enabled ? 'text-neutral-300' : 'text-neutral-500',
+      )}
+    >
+      Pause when it {describeBreakpointCondition(breakpoint.condition)}
+    </span>
+    <button
+      type="button"
+      title="Remove breakpoint"
+      onClick={() => removeBreakpoint(breakpoint.id)}
+      className="ml-auto shrink-0 text-[#666] hover:text-white"
+    >
+      <Icon name="icon-close" size={12} />
+    </button>
+  </div>
+);
+
+/**
+ * Breakpoints that pause in the debugger when the inspected component renders
+ */
+export const BreakpointsSection = memo(() => {
+  const [kind, setKind] = useState<ConditionKind>('render');
+  const [changeName, setChangeName] = useState('');
+  const [minSelfTime, setMinSelfTime] = useState(DEFAULT_MIN_SELF_TIME);
+
+  const { updates, latestFiber } = timelineState.value;
+  const componentName = latestFiber ? getDisplayName(latestFiber.type) : null;
+  const isChange = kind !== 'render' && kind !== 'self-time';
+  const changeOptions = isChange
+    ? getChangeOptions(updates[updates.length - 1], kind)
+    : [];
+  const selectedChange =
+    changeOptions.find((option) => option.name === changeName) ??
+    changeOptions[0];
+
+  const handleAdd = useCallback(() => {
+    if (!componentName) return;
+    let condition: BreakpointCondition;
+    if (kind === 'render') {
+      condition = { kind: 'render' };
+    } else if (kind === 'self-time') {
+      condition = { kind: 'self-time', minSelfTime };
+    } else if (selectedChange) {
+      condition = {
+        kind: 'change',
+        changeType: kind,
+        name: selectedChange.name,
+        label: selectedChange.label,
+      };
+    } else {
+      return;
+    }
+    addBreakpoint(componentName, condition);
+  }, [componentName, kind, minSelfTime, selectedChange]);
+
+  if (!componentName) {
+    return null;
+  }
+
+  const breakpoints = signalBreakpoints.value.filter(
+    (breakpoint) => breakpoint.componentName === componentName,
+  );
+
+  return (
+    <div className="flex flex-col gap-y-2 px-4 py-2 border-b border-[#222]">
+      <div className="text-xs text-[#888]">Breakpoints</div>
+      {breakpoints.map((breakpoint) => (
+        <BreakpointItem key={breakpoint.id} breakpoint={breakpoint} />
+      ))}
+      <div className="flex items-center gap-x-1.5">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.currentTarget.value as ConditionKind)}
+          className={inputClassName}
+        >
+          {CONDITION_KINDS.map((option) => (
+            <option key={option.kind} value={option.kind}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {isChange && (
+          <select
+            value={selectedChange?.name ?? ''}
+            disabled={!changeOptions.length}
+            onChange={(e) => setChangeName(e.currentTarget.value)}
+            className={cn(inputClassName, 'min-w-0 flex-1')}
+          >
+            {changeOptions.map((option) => (
+              <option key={option.name} value={option.name}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {kind === 'self-time' && (
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={minSelfTime}
+            onInput={(e) => {
+              const value = Number.parseFloat(e.currentTarget.value);
+              if (Number.isFinite(value)) setMinSelfTime(value);
+            }}
+            onKeyDown={(e) => e.stopPropagation()}
+            className={cn(inputClassName, 'w-14')}
+          />
+        )}
+        <button
+          type="button"
+          title={`Pause in the debugger when ${componentName} renders and the condition is met`}
+          disabled={isChange && !selectedChange}
+          onClick={handleAdd}
+          className="ml-auto shrink-0 text-xs text-neutral-400 hover:text-white disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+});
@@ -1,3 +1,4 @@
+import { hasMemoCache } from 'bippy';
 import {
   useCallback,
   useEffect,
@@ -20,6 +21,11 @@ import {
   getExtendedDisplayName,
   saveLocalStorage,
 } from '~web/utils/helpers';
+import {
+  formatSource,
+  getFiberSource,
+  openInEditor,
+} from '~web/utils/open-in-editor';
 import { getFiberPath } from '~web/utils/pin';
 import { inspectorUpdateSignal } from '../states';
 import {
@@ -34,11 +40,26 @@ import {
   signalSkipTreeUpdate,
 } from './state';
 
+const getUncompiledRenderCount = (nodes: TreeNode[]) => {
+  let total = 0;
+  let count = 0;
+  for (const node of nodes) {
+    if (!node.fiber?.type || hasMemoCache(node.fiber)) continue;
+    const renderData = renderDataMap.get(node.fiber.type);
+    if (!renderData?.renderCount) continue;
+    total += renderData.renderCount;
+    count++;
+  }
+  return count ? total / count : undefined;
+};
+
 const flattenTree = (
   nodes: TreeNode[],
   depth = 0,
   parentPath: string | null = null,
 ): FlattenedNode[] => {
+  let uncompiledSiblingsRenderCount: number | undefined | null = null;
+
   return nodes.reduce<FlattenedNode[]>((acc, node, index) => {
     const nodePath = node.element
       ? getFiberPath(node.fiber)
@@ -56,6 +77,12 @@ const flattenTree = (
       fiber: node.fiber,
       renderData,
     };
+    if (node.fiber && hasMemoCache(node.fiber)) {
+      if (uncompiledSiblingsRenderCount === null) {
+        uncompiledSiblingsRenderCount = getUncompiledRenderCount(nodes);
+      }
+      flatNode.uncompiledSiblingsRenderCount = uncompiledSiblingsRenderCount;
+    }
     acc.push(flatNode);
 
     if (node.children?.length) {
@@ -100,7 +127,14 @@ interface TreeNodeItemProps {
   searchValue: typeof searchState.value;
 }
 
-const VALID_TYPES = ['memo', 'forwardRef', 'lazy', 'suspense'];
+const VALID_TYPES = [
+  'memo',
+  'forwardRef',
+  'lazy',
+  'suspense',
+  'compiled',
+  'provider',
+];
 
 const parseTypeSearch = (query: string) => {
   const typeMatch = query.match(/\[(.*?)\]/);
@@ -134,7 +168,7 @@ const isValidTypeSearch = (typeSearches: string[]) => {
 
 const matchesTypeSearch = (
   typeSearches: string[],
-  wrapperTypes: Array<{ type: string }>,
+  wrapperTypes: Array<{ type: string; compiler?: boolean }>,
 ) => {
   if (typeSearches.length === 0) return true;
   if (!wrapperTypes.length) return false;
@@ -142,7 +176,10 @@ const matchesTypeSearch = (
   for (const search of typeSearches) {
     let foundMatch = false;
     for (const wrapper of wrapperTypes) {
-      if (wrapper.type.toLowerCase().includes(search)) {
+      if (
+        wrapper.type.toLowerCase().includes(search) ||
+        (wrapper.compiler && 'compiled'.includes(search))
+      ) {
         foundMatch = true;
         break;
       }
@@ -292,6 +329,11 @@ const TreeNodeItem = ({
       return null;
     }
 
+    const siblingsRenderCount =
+      node.uncompiledSiblingsRenderCount !== undefined
+        ? Number(node.uncompiledSiblingsRenderCount.toFixed(1))
+        : null;
+
     return (
       <span
         className={cn(
@@ -306,9 +348,21 @@ const TreeNodeItem = ({
         >
           ×{renderCount}
         </span>
+        {siblingsRenderCount !== null && (
+          <span
+            title={`Uncompiled siblings rendered ×${siblingsRenderCount} on average`}
+            className={cn(
+              renderCount > siblingsRenderCount
+                ? 'text-yellow-300'
+                : 'text-neutral-500',
+            )}
+          >
+            vs ×{siblingsRenderCount}
+          </span>
+        )}
       </span>
     );
-  }, [node.renderData]);
+  }, [node.renderData, node.uncompiledSiblingsRenderCount]);
 
   const componentTypes = useMemo(() => {
     if (!node.fiber) return null;
@@ -333,10 +387,11 @@ const TreeNodeItem = ({
                 'bg-neutral-700 text-neutral-300',
                 'truncate',
                 firstWrapperType.type === 'memo' && 'bg-[#8e61e3] text-white',
+                firstWrapperType.compiler && 'bg-purple-800 text-neutral-300',
                 typeHighlight && 'bg-yellow-300 text-black',
               )}
             >
-              {firstWrapperType.type}
+              {firstWrapperType.compiler ? 'compiled' : firstWrapperType.type}
             </span>
             {firstWrapperType.compiler && (
               <span className="text-yellow-300 ml-1">✨</span>
@@ -349,12 +404,29 @@ const TreeNodeItem = ({
     );
   }, [node.fiber, typeHighlight, renderTimeInfo]);
 
+  const source = useMemo(
+    () => (node.fiber ? getFiberSource(node.fiber) : null),
+    [node.fiber],
+  );
+
+  const handleOpenInEditor = useCallback(
+    (e: Event) => {
+      // don't select the node
+      e.stopPropagation();
+      if (source) {
+        void openInEditor(source);
+      }
+    },
+    [source],
+  );
+
   return (
     <button
       type="button"
       title={node.title}
       data-index={nodeIndex}
       className={cn(
+        'group',
         'flex items-center gap-x-1',
         'pl-1 pr-2',
         'w-full h-7',
@@ -380,6 +452,20 @@ const TreeNodeItem = ({
       </button>
       {highlightedText}
       {componentTypes}
+      {source && (
+        <button
+          type="button"
+          title={`Open in editor (${formatSource(source)})`}
+          onClick={handleOpenInEditor}
+          className={cn(
+            'ml-auto flex items-center',
+            'text-neutral-400 hover:text-white',
+            'opacity-0 group-hover:opacity-100',
+          )}
+        >
+          <Icon name="icon-code" size={12} />
+        </button>
+      )}
     </button>
   );
 };
@@ -988,7 +1074,7 @@ export const ComponentsTree = () => {
 • Regular Expression (e.g., "/^Button/") — Use forward slashes
 
 • Wrapper Type (e.g., "[memo,forwardRef]"):
-   - Available types: memo, forwardRef, lazy, suspense
+   - Available types: memo, forwardRef, lazy, suspense, compiled, provider
    - Matches any part of type name (e.g., "mo" matches "memo")
    - Use commas for multiple types
 
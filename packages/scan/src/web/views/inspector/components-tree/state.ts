@@ -16,6 +16,8 @@ export interface FlattenedNode extends TreeNode {
   nodeId: string;
   parentId: string | null;
   fiber: Fiber;
+  // average render count of the siblings not compiled by the React Compiler, set on compiled nodes
+  uncompiledSiblingsRenderCount?: number;
 }
 
 export const searchState = signal<{
@@ -0,0 +1,98 @@
+import { useComputed } from '@preact/signals';
+import { memo } from 'preact/compat';
+import { type ProviderFanOut, getProviderFanOut } from '~core/context-fan-out';
+import { Store } from '~core/index';
+import { cn } from '~web/utils/helpers';
+import { inspectorUpdateSignal } from './states';
+import { getCompositeFiberFromElement } from './utils';
+
+// the latest value changes listed per context
+const MAX_LISTED_CHANGES = 5;
+
+const formatTime = (time: number) => `${time.toFixed(1)}ms`;
+
+const ProviderFanOutItem = ({ fanOut }: { fanOut: ProviderFanOut }) => {
+  const { contextName, changes, freshValueChanges } = fanOut;
+  let consumers = 0;
+  let totalTime = 0;
+  for (const change of changes) {
+    consumers += change.consumers;
+    totalTime += change.totalTime;
+  }
+
+  return (
+    <div className="flex flex-col gap-y-1 text-xs">
+      <div className="flex items-center gap-x-1.5">
+        <span className="text-white truncate">{contextName}.Provider</span>
+        <span className="text-[#666] whitespace-nowrap">
+          {changes.length
+            ? `${changes.length} value changes, ${consumers} consumer renders, ${formatTime(totalTime)}`
+            : 'value never changed'}
+        </span>
+      </div>
+      {freshValueChanges > 0 && (
+        <div className="text-yellow-300">
+          ⚠️ {freshValueChanges} of these were a new object with the same
+          contents. Wrap the value in useMemo
+        </div>
+      )}
+      {changes
+        .slice(-MAX_LISTED_CHANGES)
+        .reverse()
+        .map((change) => (
+          <div
+            key={change.timestamp}
+            className="flex items-center gap-x-1.5 pl-2"
+          >
+            <span className="text-[#666]">↳</span>
+            <span
+              className={cn(
+                'text-neutral-300',
+                change.isFreshValue && 'text-yellow-300',
+              )}
+            >
+              {change.consumers} consumers re-rendered
+            </span>
+            <span className="text-[#666]">{formatTime(change.totalTime)}</span>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+/**
+ * How far each context value change provided by the inspected component
+ * spreads through its consumers
+ */
+export const ContextFanOutSection = memo(() => {
+  const fanOuts = useComputed(() => {
+    // recompute after every commit of the inspected component
+    inspectorUpdateSignal.value;
+    const inspectState = Store.inspectState.value;
+    if (inspectState.kind !== 'focused' || !inspectState.focusedDomElement) {
+      return [];
+    }
+    const { parentCompositeFiber } = getCompositeFiberFromElement(
+      inspectState.focusedDomElement,
+      inspectState.fiber,
+    );
+    return parentCompositeFiber ? getProviderFanOut(parentCompositeFiber) : [];
+  }).value;
+
+  if (!fanOuts.length) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-y-2 px-4 py-2 border-b border-[#222]">
+      <div className="text-xs text-[#888]">Context fan-out</div>
+      {fanOuts.map((fanOut, index) => (
+        <ProviderFanOutItem
+          // biome-ignore lint/suspicious/noArrayIndexKey: a component can provide the same context twice
+          key={index}
+          fanOut={fanOut}
+        />
+      ))}
+    </div>
+  );
+});
@@ -2,8 +2,14 @@ import { untracked, useComputed, useSignalEffect } from '@preact/signals';
 import type { Fiber } from 'bippy';
 import { useMemo, useRef, useState } from 'preact/hooks';
 import { Store } from '~core/index';
+import { Icon } from '~web/components/icon';
 import { signalIsSettingsOpen } from '~web/state';
 import { cn, getExtendedDisplayName } from '~web/utils/helpers';
+import {
+  formatSource,
+  getFiberSource,
+  openInEditor,
+} from '~web/utils/open-in-editor';
 import { timelineState } from './states';
 
 export const HeaderInspect = () => {
@@ -101,6 +107,11 @@ export const HeaderInspect = () => {
     );
   }, [currentFiber]);
 
+  const source = useMemo(
+    () => (currentFiber ? getFiberSource(currentFiber) : null),
+    [currentFiber],
+  );
+
   return (
     <div
       className={useComputed(() =>
@@ -121,6 +132,16 @@ export const HeaderInspect = () => {
         />
         <span ref={refTiming} className="with-data-text !overflow-visible" />
       </div>
+      {source && (
+        <button
+          type="button"
+          title={`Open in editor (${formatSource(source)})`}
+          onClick={() => openInEditor(source)}
+          className="flex items-center text-[#888] hover:text-white"
+        >
+          <Icon name="icon-code" size={14} />
+        </button>
+      )}
     </div>
   );
 };
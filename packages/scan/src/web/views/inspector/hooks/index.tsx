@@ -0,0 +1,145 @@
+import { useCallback, useMemo, useRef, useState } from 'preact/hooks';
+import { Icon } from '~web/components/icon';
+import { useMergedRefs } from '~web/hooks/use-merged-refs';
+import { cn } from '~web/utils/helpers';
+import { PropertyElement } from '../properties';
+import { timelineState } from '../states';
+import type { HookGroup, HookInfo, HookKind } from './utils';
+
+interface HooksSectionProps {
+  refSticky?:
+    | ReturnType<typeof useMergedRefs<HTMLElement>>
+    | ((node: HTMLElement | null) => void);
+  isSticky?: boolean;
+}
+
+const EMPTY_GROUPS: Array<HookGroup> = [];
+
+// useState, useLayoutEffect, ...
+const getHookLabel = (kind: HookKind) =>
+  kind === 'unknown' ? 'hook' : `use${kind[0].toUpperCase()}${kind.slice(1)}`;
+
+const getRecomputeNote = (hook: HookInfo) => {
+  const isMemo = hook.kind === 'memo' || hook.kind === 'callback';
+  const action = isMemo ? 'Recomputed' : 'Re-ran';
+  if (!hook.changedDeps.length) {
+    return isMemo ? `${action} without dependency changes` : null;
+  }
+  return `${action}, changed: ${hook.changedDeps.join(', ')}`;
+};
+
+const HookItem = ({
+  hook,
+  objectPathMap,
+}: {
+  hook: HookInfo;
+  objectPathMap: WeakMap<object, Set<string>>;
+}) => {
+  const label = getHookLabel(hook.kind);
+  const note = hook.recomputed ? getRecomputeNote(hook) : null;
+
+  return (
+    <>
+      <PropertyElement
+        name={hook.name ? `${label} ${hook.name}` : `${label} #${hook.index}`}
+        value={hook.value}
+        section="hooks"
+        level={0}
+        objectPathMap={objectPathMap}
+        allowEditing={false}
+      />
+      {note && (
+        <div
+          className="pl-8 pb-1 -mt-1 text-[10px] text-yellow-300 truncate"
+          title={
+            hook.deps ? `Dependencies: ${hook.deps.join(', ')}` : undefined
+          }
+        >
+          {note}
+        </div>
+      )}
+    </>
+  );
+};
+
+export const HooksSection = ({ refSticky, isSticky }: HooksSectionProps) => {
+  const refStickyElement = useRef<HTMLElement | null>(null);
+  const { updates, currentIndex } = timelineState.value;
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const refs = useMergedRefs(refStickyElement, refSticky);
+
+  const pathMap = useMemo(() => new WeakMap<object, Set<string>>(), []);
+  const groups = updates[currentIndex]?.hooks ?? EMPTY_GROUPS;
+
+  const toggleExpanded = useCallback(() => {
+    setIsExpanded((state) => {
+      if (isSticky && isExpanded) {
+        return state;
+      }
+      return !state;
+    });
+  }, [isExpanded, isSticky]);
+
+  if (!groups.length) {
+    return null;
+  }
+
+  let hookCount = 0;
+  for (const group of groups) {
+    hookCount += group.hooks.length;
+  }
+
+  return (
+    <>
+      <button
+        ref={refs}
+        type="button"
+        onClick={toggleExpanded}
+        data-sticky
+        className="react-section-header"
+      >
+        <div className="w-4 h-4 flex items-center justify-center">
+          <Icon
+            name="icon-chevron-right"
+            size={12}
+            className={cn(
+              isExpanded && 'rotate-90',
+              isSticky && isExpanded && 'rotate-0',
+            )}
+          />
+        </div>
+        <span>Hooks {!isExpanded && `(${hookCount})`}</span>
+      </button>
+      <div className="react-scan-section">
+        <div
+          className={cn(
+            'react-scan-expandable',
+            isExpanded && 'react-scan-expanded',
+          )}
+        >
+          <div className="overflow-hidden">
+            {groups.map((group) => (
+              <div key={group.hooks[0].index} className="flex flex-col">
+                {group.name && (
+                  <div className="pt-1.5 pl-2 text-[10px] text-neutral-500 truncate">
+                    {group.name}()
+                  </div>
+                )}
+                <div className={cn(group.name && 'pl-2')}>
+                  {group.hooks.map((hook) => (
+                    <HookItem
+                      key={hook.index}
+                      hook={hook}
+                      objectPathMap={pathMap}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
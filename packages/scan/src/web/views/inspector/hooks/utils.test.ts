@@ -0,0 +1,146 @@
+// @vitest-environment jsdom
+import { type Fiber, getFiberFromHostInstance } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import { collectHooks } from './utils';
+
+const SOURCE = `function Counter() {
+  const [count, setCount] = (0, _react.useState)(0);
+  const doubled = (0, _react.useMemo)(() => count * 2, [count]);
+  const { data } = useQuery(key);
+  (0, _react.useEffect)(() => {
+    document.title = String(doubled);
+  }, [doubled, data]);
+}`;
+
+const HOOK_TYPES = [
+  'useState',
+  'useMemo',
+  'useState',
+  'useEffect',
+  'useContext',
+  'useEffect',
+];
+
+const basicStateReducer = (state: unknown) => state;
+
+const createHooks = (values: {
+  count: number;
+  doubled: number;
+  data: unknown;
+}) => {
+  const nodes = [
+    {
+      memoizedState: values.count,
+      queue: { lastRenderedReducer: basicStateReducer },
+    },
+    { memoizedState: [values.doubled, [values.count]], queue: null },
+    {
+      memoizedState: values.data,
+      queue: { lastRenderedReducer: basicStateReducer },
+    },
+    { memoizedState: { tag: 9, create: () => {}, deps: [] }, queue: null },
+    {
+      memoizedState: {
+        tag: 9,
+        create: () => {},
+        deps: [values.doubled, values.data],
+      },
+      queue: null,
+    },
+  ];
+  for (let i = 0; i < nodes.length - 1; i++) {
+    (nodes[i] as Record<string, unknown>).next = nodes[i + 1];
+  }
+  return nodes[0];
+};
+
+const createFiber = (debugHookTypes: Array<string> | null) => {
+  const data = { items: [] };
+  const alternate = {
+    memoizedState: createHooks({ count: 1, doubled: 2, data }),
+  };
+  return {
+    type: { toString: () => SOURCE },
+    memoizedState: createHooks({ count: 2, doubled: 4, data }),
+    alternate,
+    _debugHookTypes: debugHookTypes,
+  } as unknown as Fiber;
+};
+
+describe('collectHooks', () => {
+  it('groups hooks by the custom hook that called them', () => {
+    const groups = collectHooks(createFiber(HOOK_TYPES));
+
+    expect(groups.map((group) => group.name)).toEqual([null, 'useQuery', null]);
+    expect(groups[0].hooks.map((hook) => [hook.kind, hook.name])).toEqual([
+      ['state', 'count'],
+      ['memo', 'doubled'],
+    ]);
+    expect(groups[1].hooks.map((hook) => hook.kind)).toEqual([
+      'state',
+      'effect',
+    ]);
+    expect(groups[2].hooks[0].kind).toBe('effect');
+  });
+
+  it('names the dependencies that caused a recompute', () => {
+    const [own, , trailing] = collectHooks(createFiber(HOOK_TYPES));
+    const memo = own.hooks[1];
+
+    expect(memo.value).toBe(4);
+    expect(memo.recomputed).toBe(true);
+    expect(memo.changedDeps).toEqual(['count']);
+    expect(trailing.hooks[0].deps).toEqual(['doubled', 'data']);
+    expect(trailing.hooks[0].changedDeps).toEqual(['doubled']);
+  });
+
+  it('classifies hooks by their shape without debug hook types', () => {
+    const [group] = collectHooks(createFiber(null));
+
+    expect(group.name).toBeNull();
+    expect(group.hooks.map((hook) => hook.kind)).toEqual([
+      'state',
+      'memo',
+      'state',
+      'effect',
+      'effect',
+    ]);
+  });
+
+  it('lines up the hooks of a rendered component', async () => {
+    const { createElement, useDeferredValue, useState, useSyncExternalStore } =
+      await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    const items = ['apple'];
+    const subscribe = () => () => {};
+    const Cart = () => {
+      const cartItems = useSyncExternalStore(subscribe, () => items);
+      const deferredItems = useDeferredValue(cartItems);
+      const [isOpen] = useState(false);
+      return createElement('p', null, `${deferredItems} ${isOpen}`);
+    };
+
+    const container = document.createElement('div');
+    const root = createRoot(container);
+    flushSync(() => root.render(createElement(Cart)));
+
+    const paragraph = container.firstElementChild;
+    const fiber = paragraph && getFiberFromHostInstance(paragraph)?.return;
+    const [group] = fiber ? collectHooks(fiber) : [];
+    root.unmount();
+
+    expect(group.hooks.map(({ kind, name }) => [kind, name])).toEqual([
+      ['syncExternalStore', 'cartItems'],
+      ['deferredValue', 'deferredItems'],
+      ['state', 'isOpen'],
+    ]);
+    // the store's subscription effect sits between the store and the deferred value
+    expect(group.hooks.map(({ index, value }) => [index, value])).toEqual([
+      [0, items],
+      [2, items],
+      [3, false],
+    ]);
+  });
+});
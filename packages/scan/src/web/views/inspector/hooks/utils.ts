@@ -0,0 +1,464 @@
+import type { Fiber, MemoizedState } from 'bippy';
+
+export type HookKind =
+  | 'state'
+  | 'reducer'
+  | 'ref'
+  | 'memo'
+  | 'callback'
+  | 'effect'
+  | 'layoutEffect'
+  | 'insertionEffect'
+  | 'imperativeHandle'
+  | 'syncExternalStore'
+  | 'transition'
+  | 'deferredValue'
+  | 'id'
+  | 'optimistic'
+  | 'actionState'
+  | 'unknown';
+
+export interface HookInfo {
+  // position of the hook's first node in the memoizedState list
+  index: number;
+  kind: HookKind;
+  // the variable the hook is assigned to, when the component source has it
+  name: string | null;
+  value: unknown;
+  changed: boolean;
+  // memo, callback and effect hooks
+  deps: Array<string> | null;
+  changedDeps: Array<string>;
+  recomputed: boolean;
+}
+
+export interface HookGroup {
+  // the custom hook(s) the hooks were called from, null for the component's own hooks
+  name: string | null;
+  hooks: Array<HookInfo>;
+}
+
+interface HookNode extends MemoizedState {
+  queue?: {
+    lastRenderedReducer?: unknown;
+    getSnapshot?: unknown;
+  } | null;
+}
+
+interface EffectState {
+  tag: number;
+  create: unknown;
+  deps: Array<unknown> | null;
+}
+
+interface HookType {
+  kind: HookKind;
+  // nodes the hook adds to the memoizedState list
+  size: number;
+}
+
+// names as they appear in fiber._debugHookTypes
+const HOOK_TYPES: Record<string, HookType> = {
+  useState: { kind: 'state', size: 1 },
+  useReducer: { kind: 'reducer', size: 1 },
+  useRef: { kind: 'ref', size: 1 },
+  useMemo: { kind: 'memo', size: 1 },
+  useCallback: { kind: 'callback', size: 1 },
+  useEffect: { kind: 'effect', size: 1 },
+  useLayoutEffect: { kind: 'layoutEffect', size: 1 },
+  useInsertionEffect: { kind: 'insertionEffect', size: 1 },
+  useImperativeHandle: { kind: 'imperativeHandle', size: 1 },
+  // the subscription is an effect _debugHookTypes doesn't list
+  useSyncExternalStore: { kind: 'syncExternalStore', size: 2 },
+  useTransition: { kind: 'transition', size: 2 },
+  useDeferredValue: { kind: 'deferredValue', size: 1 },
+  useId: { kind: 'id', size: 1 },
+  useOptimistic: { kind: 'optimistic', size: 1 },
+  useActionState: { kind: 'actionState', size: 3 },
+  useFormState: { kind: 'actionState', size: 3 },
+};
+
+// read context or debug info without adding to the memoizedState list
+const LISTLESS_HOOKS = new Set(['useContext', 'useDebugValue', 'use']);
+
+// react's HookFlags
+const HookInsertion = 0b0010;
+const HookLayout = 0b0100;
+
+const DEPS_KINDS = new Set<HookKind>([
+  'memo',
+  'callback',
+  'effect',
+  'layoutEffect',
+  'insertionEffect',
+  'imperativeHandle',
+]);
+
+const HOOK_CALL_REGEX = /\b(use[A-Z]\w*)\)?\s*\(/g;
+// the declaration a hook call is assigned to, e.g. "const [count, setCount] = (0, _react."
+const HOOK_ASSIGNMENT_REGEX =
+  /(?:const|let|var)\s+(\[[^\]=]*\]|\{[^}=]*\}|[\w$]+)\s*=\s*[\w$.,()\s]*$/;
+
+const isEffectState = (value: unknown): value is EffectState =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as EffectState).tag === 'number' &&
+  'create' in value;
+
+// without _debugHookTypes (production builds) the kind is guessed from the hook's shape
+const classifyHook = (hook: HookNode): HookKind => {
+  const { memoizedState, queue } = hook;
+  if (queue && typeof queue === 'object') {
+    if ('getSnapshot' in queue) return 'syncExternalStore';
+    if ('lastRenderedReducer' in queue) return 'state';
+  }
+  if (isEffectState(memoizedState)) {
+    if (memoizedState.tag & HookInsertion) return 'insertionEffect';
+    if (memoizedState.tag & HookLayout) return 'layoutEffect';
+    return 'effect';
+  }
+  if (
+    Array.isArray(memoizedState) &&
+    memoizedState.length === 2 &&
+    (memoizedState[1] === null || Array.isArray(memoizedState[1]))
+  ) {
+    return typeof memoizedState[0] === 'function' ? 'callback' : 'memo';
+  }
+  if (
+    memoizedState &&
+    typeof memoizedState === 'object' &&
+    Object.keys(memoizedState).length === 1 &&
+    'current' in memoizedState
+  ) {
+    return 'ref';
+  }
+  // ":r0:" before react 19.1, "«r0»" since
+  if (typeof memoizedState === 'string' && /^[:«]/.test(memoizedState)) {
+    return 'id';
+  }
+  return 'unknown';
+};
+
+const getHookValue = (kind: HookKind, hook: HookNode): unknown => {
+  const { memoizedState } = hook;
+  switch (kind) {
+    case 'ref':
+      return (memoizedState as { current?: unknown } | null)?.current;
+    case 'memo':
+    case 'callback':
+      return Array.isArray(memoizedState) ? memoizedState[0] : memoizedState;
+    case 'effect':
+    case 'layoutEffect':
+    case 'insertionEffect':
+    case 'imperativeHandle':
+      return isEffectState(memoizedState) ? memoizedState.deps : undefined;
+    default:
+      // the first node of useTransition and useActionState holds isPending and the state
+      return memoizedState;
+  }
+};
+
+const getHookDeps = (kind: HookKind, hook: HookNode) => {
+  const { memoizedState } = hook;
+  if (kind === 'memo' || kind === 'callback') {
+    return Array.isArray(memoizedState)
+      ? (memoizedState[1] as Array<unknown> | null)
+      : null;
+  }
+  return isEffectState(memoizedState) ? memoizedState.deps : null;
+};
+
+const getHookNodes = (fiber: Fiber | null | undefined) => {
+  const nodes: Array<HookNode> = [];
+  let hook: HookNode | null = fiber?.memoizedState ?? null;
+  while (hook) {
+    nodes.push(hook);
+    hook = hook.next as HookNode | null;
+  }
+  return nodes;
+};
+
+const QUOTES = new Set(['"', "'", '`']);
+
+// splits the arguments of the call whose "(" is at openIndex, string contents are skipped roughly
+const getCallArguments = (source: string, openIndex: number) => {
+  const args: Array<string> = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = openIndex + 1;
+
+  for (let i = openIndex; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (QUOTES.has(char)) {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        args.push(source.slice(start, i).trim());
+        return args;
+      }
+    } else if (char === ',' && depth === 1) {
+      args.push(source.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  return null;
+};
+
+const getDepNames = (args: Array<string> | null) => {
+  const lastArg = args?.filter(Boolean).at(-1);
+  if (!lastArg?.startsWith('[') || !lastArg.endsWith(']')) return null;
+  return (getCallArguments(lastArg, 0) ?? []).filter(Boolean);
+};
+
+const getVariableName = (source: string, callIndex: number) => {
+  const before = source.slice(Math.max(0, callIndex - 200), callIndex);
+  const declaration = before.match(HOOK_ASSIGNMENT_REGEX)?.[1];
+  if (!declaration) return null;
+  // const [count, setCount] = useState() is named after the state
+  if (declaration.startsWith('[')) {
+    return declaration.slice(1, -1).split(',')[0].trim() || null;
+  }
+  return declaration.replace(/\s+/g, ' ');
+};
+
+interface HookCall {
+  hookName: string;
+  variable: string | null;
+  deps: Array<string> | null;
+}
+
+const getHookCalls = (source: string): Array<HookCall> => {
+  const calls: Array<HookCall> = [];
+  for (const match of source.matchAll(HOOK_CALL_REGEX)) {
+    const index = match.index ?? 0;
+    calls.push({
+      hookName: match[1],
+      variable: getVariableName(source, index),
+      deps: getDepNames(getCallArguments(source, index + match[0].length - 1)),
+    });
+  }
+  return calls;
+};
+
+interface HookSlot {
+  hookName: string | null;
+  type: HookType;
+  call: HookCall | null;
+  group: string | null;
+}
+
+const isCustomHook = (call: HookCall) => !HOOK_TYPES[call.hookName];
+
+/**
+ * Lines the hooks react recorded up with the hook calls in the component
+ * source. Calls to custom hooks own the hooks between the built-in calls
+ * around them, consecutive custom hooks can't be told apart and share a group
+ */
+const assignHookCalls = (
+  slots: Array<HookSlot>,
+  allCalls: Array<HookCall>,
+): boolean => {
+  const calls = allCalls.filter((call) => !LISTLESS_HOOKS.has(call.hookName));
+
+  // built-in calls after the last custom hook line up with the end of the list,
+  // otherwise a custom hook's trailing effect could be taken for the component's own
+  let end = slots.length;
+  let lastCustomIndex = calls.length - 1;
+  while (lastCustomIndex >= 0 && !isCustomHook(calls[lastCustomIndex])) {
+    lastCustomIndex--;
+  }
+  if (lastCustomIndex >= 0) {
+    for (let i = calls.length - 1; i > lastCustomIndex; i--) {
+      end--;
+      if (slots[end]?.hookName !== calls[i].hookName) return false;
+      slots[end].call = calls[i];
+    }
+  }
+
+  let slotIndex = 0;
+  let pendingCustomHooks: Array<string> = [];
+
+  const assignPending = (groupEnd: number) => {
+    const group = pendingCustomHooks.join(' / ');
+    for (; slotIndex < groupEnd; slotIndex++) {
+      slots[slotIndex].group = group;
+    }
+    pendingCustomHooks = [];
+  };
+
+  const headLength = lastCustomIndex >= 0 ? lastCustomIndex + 1 : calls.length;
+  for (let i = 0; i < headLength; i++) {
+    const call = calls[i];
+    if (isCustomHook(call)) {
+      pendingCustomHooks.push(call.hookName);
+      continue;
+    }
+
+    let match = slotIndex;
+    if (pendingCustomHooks.length) {
+      while (match < end && slots[match].hookName !== call.hookName) {
+        match++;
+      }
+      if (match === end) return false;
+      assignPending(match);
+    }
+    if (match >= end || slots[match].hookName !== call.hookName) return false;
+
+    slots[match].call = call;
+    slotIndex = match + 1;
+  }
+
+  if (pendingCustomHooks.length) {
+    assignPending(end);
+  }
+  return slotIndex === end;
+};
+
+const getHookSlots = (fiber: Fiber, nodeCount: number): Array<HookSlot> => {
+  const debugHookTypes = (fiber as { _debugHookTypes?: Array<string> | null })
+    ._debugHookTypes;
+
+  if (debugHookTypes) {
+    const slots: Array<HookSlot> = [];
+    let size = 0;
+    for (const hookName of debugHookTypes) {
+      if (LISTLESS_HOOKS.has(hookName)) continue;
+      const type = HOOK_TYPES[hookName];
+      // a hook we don't know the size of makes every position after it unreliable
+      if (!type) break;
+      slots.push({ hookName, type, call: null, group: null });
+      size += type.size;
+    }
+
+    if (size === nodeCount) {
+      const source = fiber.type?.toString?.() || '';
+      const calls = source ? getHookCalls(source) : [];
+      // conditional hooks or hooks called from helpers throw the alignment off
+      if (calls.length && !assignHookCalls(slots, calls)) {
+        for (const slot of slots) {
+          slot.call = null;
+          slot.group = null;
+        }
+      }
+      return slots;
+    }
+  }
+
+  return getHookNodes(fiber).map((hook) => ({
+    hookName: null,
+    type: { kind: classifyHook(hook), size: 1 },
+    call: null,
+    group: null,
+  }));
+};
+
+/**
+ * Positions in the memoizedState list of the hooks of a kind, null without
+ * _debugHookTypes or when a hook of unknown size throws the positions off
+ */
+export const findHookIndices = (
+  fiber: Fiber,
+  kind: HookKind,
+): Array<number> | null => {
+  const debugHookTypes = (fiber as { _debugHookTypes?: Array<string> | null })
+    ._debugHookTypes;
+  if (!debugHookTypes) return null;
+
+  const indices: Array<number> = [];
+  let index = 0;
+  for (const hookName of debugHookTypes) {
+    if (LISTLESS_HOOKS.has(hookName)) continue;
+    const type = HOOK_TYPES[hookName];
+    if (!type) return null;
+    if (type.kind === kind) {
+      indices.push(index);
+    }
+    index += type.size;
+  }
+  return indices;
+};
+
+const getChangedDeps = (
+  prevDeps: Array<unknown> | null,
+  nextDeps: Array<unknown> | null,
+  names: Array<string> | null,
+) => {
+  if (!prevDeps || !nextDeps) return [];
+  const changed: Array<string> = [];
+  for (let i = 0; i < nextDeps.length; i++) {
+    if (!Object.is(prevDeps[i], nextDeps[i])) {
+      changed.push(
+        names && names.length === nextDeps.length ? names[i] : `#${i}`,
+      );
+    }
+  }
+  return changed;
+};
+
+/**
+ * Every hook of a function component, grouped by the custom hook that called
+ * it when the development build records hook types
+ */
+export const collectHooks = (fiber: Fiber): Array<HookGroup> => {
+  const nodes = getHookNodes(fiber);
+  if (!nodes.length) return [];
+
+  const prevNodes = getHookNodes(fiber.alternate);
+  const hasPrev = prevNodes.length === nodes.length;
+
+  const groups: Array<HookGroup> = [];
+  let nodeIndex = 0;
+
+  for (const slot of getHookSlots(fiber, nodes.length)) {
+    const { kind, size } = slot.type;
+    const hook = nodes[nodeIndex];
+    const prevHook = hasPrev ? prevNodes[nodeIndex] : null;
+    const value = getHookValue(kind, hook);
+
+    let deps: Array<string> | null = null;
+    let changedDeps: Array<string> = [];
+    let recomputed = false;
+    if (DEPS_KINDS.has(kind)) {
+      deps = slot.call?.deps ?? null;
+      const nextDeps = getHookDeps(kind, hook);
+      const prevDeps = prevHook ? getHookDeps(kind, prevHook) : null;
+      changedDeps = getChangedDeps(prevDeps, nextDeps, deps);
+      recomputed =
+        kind === 'memo' || kind === 'callback'
+          ? !!prevHook && !Object.is(getHookValue(kind, prevHook), value)
+          : changedDeps.length > 0;
+    }
+
+    const info: HookInfo = {
+      index: nodeIndex,
+      kind,
+      name: slot.call?.variable ?? null,
+      value,
+      changed: DEPS_KINDS.has(kind)
+        ? recomputed
+        : !!prevHook && !Object.is(getHookValue(kind, prevHook), value),
+      deps,
+      changedDeps,
+      recomputed,
+    };
+
+    const lastGroup = groups.at(-1);
+    if (lastGroup && lastGroup.name === slot.group) {
+      lastGroup.hooks.push(info);
+    } else {
+      groups.push({ name: slot.group, hooks: [info] });
+    }
+
+    nodeIndex += size;
+  }
+
+  return groups;
+};
@@ -1,15 +1,21 @@
 import { untracked, useComputed, useSignalEffect } from '@preact/signals';
-import type { Fiber } from 'bippy';
+import { type Fiber, getType } from 'bippy';
 import { Component } from 'preact';
 import { useEffect, useRef } from 'preact/hooks';
 import { Store } from '~core/index';
+import { getWastedRenderCount } from '~core/unstable-props';
 import { Icon } from '~web/components/icon';
 import { StickySection } from '~web/components/sticky-section';
 import { signalIsSettingsOpen } from '~web/state';
 import { cn } from '~web/utils/helpers';
+import { restorePinnedFiber } from '~web/utils/pin';
 import { constant } from '~web/utils/preact/constant';
+import { BreakpointsSection } from './breakpoints';
 import { ComponentsTree } from './components-tree';
+import { ContextFanOutSection } from './context-fan-out';
 import { flashManager } from './flash-overlay';
+import { HooksSection } from './hooks';
+import { collectHooks } from './hooks/utils';
 import { PropertySection } from './properties';
 import {
   type TimelineUpdate,
@@ -18,6 +24,7 @@ import {
 } from './states';
 import {
   collectInspectorData,
+  collectRenderCause,
   getStateNames,
   resetTracking,
 } from './timeline/utils';
@@ -82,7 +89,7 @@ const Inspector = constant(() => {
   const refLastInspectedFiber = useRef<Fiber | null>(null);
 
   // NOTE(Alexis): no need for useCallback
-  const processUpdate = (fiber: Fiber) => {
+  const processUpdate = (fiber: Fiber, isCommit: boolean) => {
     if (!fiber) return;
 
     refLastInspectedFiber.current = fiber;
@@ -96,6 +103,10 @@ const Inspector = constant(() => {
         state: inspectorData.fiberState,
         context: inspectorData.fiberContext,
         stateNames: getStateNames(fiber),
+        hooks: collectHooks(fiber),
+        // on the first focus the fiber may not have rendered in the latest commit
+        renderCause: isCommit ? collectRenderCause(fiber) : null,
+        wastedRenders: getWastedRenderCount(getType(fiber.type)),
       };
 
       timelineActions.addUpdate(update, fiber);
@@ -128,7 +139,7 @@ const Inspector = constant(() => {
       if (isNewComponent) {
         refLastInspectedFiber.current = parentCompositeFiber;
         globalInspectorState.cleanup();
-        processUpdate(parentCompositeFiber);
+        processUpdate(parentCompositeFiber, false);
       }
     });
   });
@@ -156,11 +167,13 @@ const Inspector = constant(() => {
         return;
       }
 
-      processUpdate(parentCompositeFiber);
+      processUpdate(parentCompositeFiber, true);
 
       if (!inspectState.focusedDomElement.isConnected) {
         refLastInspectedFiber.current = null;
         globalInspectorState.cleanup();
+        // e.g. hot reloading remounted the pinned component
+        restorePinnedFiber();
         Store.inspectState.value = {
           kind: 'inspecting',
           hoveredDomElement: null,
@@ -192,12 +205,15 @@ const Inspector = constant(() => {
         )}
       >
         <WhatChangedSection />
+        <ContextFanOutSection />
+        <BreakpointsSection />
         <StickySection>
           {(props) => <PropertySection section="props" {...props} />}
         </StickySection>
         <StickySection>
           {(props) => <PropertySection section="state" {...props} />}
         </StickySection>
+        <StickySection>{(props) => <HooksSection {...props} />}</StickySection>
         <StickySection>
           {(props) => <PropertySection section="context" {...props} />}
         </StickySection>
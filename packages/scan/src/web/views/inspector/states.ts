@@ -2,7 +2,12 @@ import { signal } from '@preact/signals';
 import type { Fiber } from 'bippy';
 import type { ComponentType } from 'preact';
 import { flashManager } from './flash-overlay';
-import { type SectionData, resetTracking } from './timeline/utils';
+import type { HookGroup } from './hooks/utils';
+import {
+  type RenderCause,
+  type SectionData,
+  resetTracking,
+} from './timeline/utils';
 
 export interface MinimalFiberInfo {
   id?: string | number;
@@ -20,6 +25,9 @@ export interface TimelineUpdate {
   state: SectionData;
   context: SectionData;
   stateNames: string[];
+  hooks: Array<HookGroup>;
+  renderCause: RenderCause | null;
+  wastedRenders: number;
 }
 
 export interface TimelineState {
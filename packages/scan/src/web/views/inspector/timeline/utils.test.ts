@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { type Fiber, getDisplayName, installRDTHook } from 'bippy';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createInstrumentation } from '~core/instrumentation';
+import { collectRenderCause } from './utils';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+// the fibers of the latest commit, their flags describe that commit
+const renderedFibers = new Map<string, Fiber>();
+
+createInstrumentation('react-scan-render-cause-test', {
+  onCommitStart() {
+    renderedFibers.clear();
+  },
+  isValidFiber: () => true,
+  onRender(fiber) {
+    const name = getDisplayName(fiber.type);
+    if (name) renderedFibers.set(name, fiber);
+  },
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: false,
+});
+
+const getCause = (name: string) => {
+  const fiber = renderedFibers.get(name);
+  if (!fiber) throw new Error(`${name} didn't render`);
+  return collectRenderCause(fiber);
+};
+
+let React: typeof import('react');
+let flushSync: typeof import('react-dom').flushSync;
+let createRoot: typeof import('react-dom/client').createRoot;
+
+beforeAll(async () => {
+  React = await import('react');
+  ({ flushSync } = await import('react-dom'));
+  ({ createRoot } = await import('react-dom/client'));
+});
+
+describe('collectRenderCause', () => {
+  it('walks up the parents that re-rendered to the state that changed', () => {
+    const { createElement, useState } = React;
+    let setCount: (count: number) => void = () => {};
+    const Leaf = () => createElement('span');
+    const Child = ({ count }: { count: number }) =>
+      createElement('div', { title: String(count) }, createElement(Leaf));
+    const Parent = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(Child, { count });
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Parent)));
+    flushSync(() => setCount(1));
+
+    expect(getCause('Leaf')).toEqual({
+      origin: { name: 'Parent', state: [0], context: [] },
+      chain: [
+        // changed props are listed
+        { name: 'Child', props: ['count'] },
+        // re-rendered only because its parent did
+        { name: 'Leaf', props: [] },
+      ],
+    });
+    expect(getCause('Parent')).toEqual({
+      origin: { name: 'Parent', state: [0], context: [] },
+      chain: [],
+    });
+    root.unmount();
+  });
+
+  it('stops at a component whose context changed', () => {
+    const { createContext, createElement, memo, useContext, useState } = React;
+    const ThemeContext = createContext('light');
+    ThemeContext.displayName = 'ThemeContext';
+    let setTheme: (theme: string) => void = () => {};
+    const Consumer = () =>
+      createElement('span', null, useContext(ThemeContext));
+    // memo keeps the provider's render from reaching the consumer
+    const Layout = () => createElement(Consumer);
+    const Middle = memo(Layout);
+    const Provider = () => {
+      const [theme, _setTheme] = useState('light');
+      setTheme = _setTheme;
+      return createElement(
+        ThemeContext.Provider,
+        { value: theme },
+        createElement(Middle),
+      );
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Provider)));
+    flushSync(() => setTheme('dark'));
+
+    expect(renderedFibers.has('Layout')).toBe(false);
+    expect(getCause('Consumer')).toEqual({
+      origin: { name: 'Consumer', state: [], context: ['ThemeContext'] },
+      chain: [],
+    });
+    root.unmount();
+  });
+
+  it('has no origin when the root rendered again', () => {
+    const { createElement } = React;
+    const App = ({ label }: { label: string }) =>
+      createElement('span', null, label);
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(App, { label: 'a' })));
+    flushSync(() => root.render(createElement(App, { label: 'b' })));
+
+    expect(getCause('App')).toEqual({
+      origin: null,
+      chain: [{ name: 'App', props: ['label'] }],
+    });
+    root.unmount();
+  });
+
+  it('ignores fibers that bailed out', () => {
+    const { createElement, memo, useState } = React;
+    let setCount: (count: number) => void = () => {};
+    const Row = () => createElement('span');
+    const Skipped = memo(Row);
+    const Parent = () => {
+      const [count, _setCount] = useState(0);
+      setCount = _setCount;
+      return createElement(
+        'div',
+        { title: String(count) },
+        createElement(Skipped),
+      );
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(Parent)));
+    const mounted = renderedFibers.get('Row');
+    flushSync(() => setCount(1));
+
+    expect(renderedFibers.has('Row')).toBe(false);
+    // the bailout cloned the mounted fiber into its alternate
+    const skipped = mounted?.alternate;
+    expect(skipped && collectRenderCause(skipped)).toBeNull();
+    root.unmount();
+  });
+});
@@ -7,8 +7,20 @@ import {
   MemoComponentTag,
   type MemoizedState,
   SimpleMemoComponentTag,
+  didFiberRender,
+  getDisplayName,
+  isCompositeFiber,
 } from 'bippy';
+import {
+  type StoreSubscription,
+  getStoreHookValue,
+  getStoreSubscription,
+} from '~core/external-stores';
+import { isValueUnstable } from '~core/instrumentation';
+import { getUnstablePropSuggestion } from '~core/unstable-props';
+import { getUpdateOrigin } from '~core/update-origins';
 import { isEqual } from '~core/utils';
+import { type StackFrame, getStackFrames } from '~web/utils/open-in-editor';
 import { getChangedPropsDetailed, isPromise } from '../utils';
 
 interface ChangeTrackingInfo {
@@ -27,6 +39,8 @@ let lastComponentType: unknown = null;
 
 const STATE_NAME_REGEX = /\[(?<name>\w+),\s*set\w+\]/g;
 const PROPS_ORDER_REGEX = /\(\s*{\s*(?<props>[^}]+)\s*}\s*\)/;
+// the setter call and the code around it, the rest is usually framework code
+const MAX_ORIGIN_FRAMES = 8;
 
 export const getStateNames = (fiber: Fiber): Array<string> => {
   const componentSource = fiber.type?.toString?.() || '';
@@ -96,6 +110,12 @@ export interface SectionData {
   current: Array<{ name: string | number; value: unknown }>;
   changes: Set<string | number>;
   changesCounts: Map<string | number, number>;
+  // suggestions for props that got a new identity but look the same
+  unstable: Map<string | number, string>;
+  // the app frames of the setter call behind a state change, see trackUpdateOrigins
+  origins: Map<string | number, Array<StackFrame>>;
+  // state hooks that subscribe to an external store
+  stores: Map<string | number, StoreSubscription>;
 }
 
 export interface InspectorData {
@@ -121,7 +141,7 @@ export const getStateFromFiber = (
 
     while (memoizedState) {
       if (memoizedState.queue && memoizedState.memoizedState !== undefined) {
-        state[index] = memoizedState.memoizedState;
+        state[index] = getStoreHookValue(memoizedState);
       }
       memoizedState = memoizedState.next;
       index++;
@@ -272,6 +292,9 @@ export const collectInspectorData = (fiber: Fiber): InspectorDataResult => {
     current: [],
     changes: new Set<string | number>(),
     changesCounts: new Map<string | number, number>(),
+    unstable: new Map<string | number, string>(),
+    origins: new Map<string | number, Array<StackFrame>>(),
+    stores: new Map<string | number, StoreSubscription>(),
   });
 
   if (!fiber) {
@@ -313,6 +336,12 @@ export const collectInspectorData = (fiber: Fiber): InspectorDataResult => {
         hasNewChanges = true;
         propsData.changes.add(change.name);
         propsData.changesCounts.set(change.name, count);
+        if (isValueUnstable(change.prevValue, change.value)) {
+          propsData.unstable.set(
+            change.name,
+            getUnstablePropSuggestion(fiber, change.name, change.value),
+          );
+        }
       }
     }
   }
@@ -338,6 +367,20 @@ export const collectInspectorData = (fiber: Fiber): InspectorDataResult => {
       hasNewChanges = true;
       stateData.changes.add(change.name);
       stateData.changesCounts.set(change.name, count);
+      const origin = getUpdateOrigin(fiber, change.name);
+      if (origin) {
+        stateData.origins.set(
+          change.name,
+          getStackFrames(origin.stack).slice(0, MAX_ORIGIN_FRAMES),
+        );
+      }
+      const store =
+        typeof change.name === 'number'
+          ? getStoreSubscription(fiber, change.name)
+          : null;
+      if (store) {
+        stateData.stores.set(change.name, store);
+      }
     }
   }
 
@@ -430,3 +473,94 @@ export const getAllFiberContexts = (
 
   return contexts;
 };
+
+export interface RenderCauseOrigin {
+  name: string;
+  state: Array<string | number>;
+  context: Array<string>;
+}
+
+export interface RenderCauseLink {
+  name: string;
+  // empty when the parent passed equal props and the component still re-rendered
+  props: Array<string>;
+}
+
+export interface RenderCause {
+  // null when no ancestor state or context changed, e.g. a root render
+  origin: RenderCauseOrigin | null;
+  // components between the origin and the inspected one (included) that re-rendered only because their parent did
+  chain: Array<RenderCauseLink>;
+}
+
+// unlike collectContextChanges this ignores contexts read by ancestors
+const getOwnContextChanges = (fiber: Fiber): Array<string> => {
+  const changes: Array<string> = [];
+  let contextItem: ContextDependency<unknown> | null | undefined =
+    fiber.dependencies?.firstContext;
+
+  while (contextItem) {
+    let prevItem: ContextDependency<unknown> | null | undefined =
+      fiber.alternate?.dependencies?.firstContext;
+    while (prevItem && prevItem.context !== contextItem.context) {
+      if (prevItem === prevItem.next) {
+        prevItem = null;
+        break;
+      }
+      prevItem = prevItem.next;
+    }
+
+    if (
+      prevItem &&
+      !isEqual(prevItem.memoizedValue, contextItem.memoizedValue)
+    ) {
+      changes.push(contextItem.context?.displayName ?? 'UnnamedContext');
+    }
+
+    if (contextItem === contextItem.next) {
+      break;
+    }
+    contextItem = contextItem.next;
+  }
+
+  return changes;
+};
+
+/**
+ * Walks up from a fiber that rendered in the latest commit to the nearest
+ * ancestor whose own state or context changed. Ancestors of a rendered fiber
+ * are always cloned during the commit, so their flags describe the same commit
+ */
+export const collectRenderCause = (fiber: Fiber): RenderCause | null => {
+  if (!didFiberRender(fiber)) return null;
+
+  const chain: Array<RenderCauseLink> = [];
+  let current: Fiber | null = fiber;
+
+  while (current) {
+    if (isCompositeFiber(current)) {
+      // a component that bailed out can't pass a render down
+      if (!didFiberRender(current)) break;
+
+      const name = getDisplayName(current.type) ?? 'Unknown';
+      const state = collectStateChanges(current).changes.map(
+        (change) => change.name,
+      );
+      const context = getOwnContextChanges(current);
+
+      if (state.length || context.length) {
+        return { origin: { name, state, context }, chain: chain.reverse() };
+      }
+
+      chain.push({
+        name,
+        props: current.alternate
+          ? getChangedPropsDetailed(current).map((change) => change.name)
+          : [],
+      });
+    }
+    current = current.return;
+  }
+
+  return { origin: null, chain: chain.reverse() };
+};
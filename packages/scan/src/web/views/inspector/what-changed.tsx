@@ -13,15 +13,25 @@ import {
   useRef,
   useState,
 } from 'preact/hooks';
+import {
+  type StoreSubscription,
+  describeStoreUpdate,
+} from '~core/external-stores';
 import { isEqual } from '~core/utils';
 import { CopyToClipboard } from '~web/components/copy-to-clipboard';
 import { Icon } from '~web/components/icon';
 import { StickySection } from '~web/components/sticky-section';
 import type { useMergedRefs } from '~web/hooks/use-merged-refs';
 import { cn, throttle } from '~web/utils/helpers';
+import {
+  type StackFrame,
+  formatSource,
+  openInEditor,
+} from '~web/utils/open-in-editor';
 import { DiffValueView } from './diff-value';
 import { type MinimalFiberInfo, timelineState } from './states';
 import { Timeline } from './timeline';
+import type { RenderCauseOrigin } from './timeline/utils';
 import {
   formatFunctionPreview,
   formatPath,
@@ -152,6 +162,7 @@ export const WhatChanged = memo(
                 <Section title="Props" isExpanded={isExpanded} />
                 <Section title="State" isExpanded={isExpanded} />
                 <Section title="Context" isExpanded={isExpanded} />
+                <RenderCauseSection />
               </div>
             )}
           </div>
@@ -372,6 +383,132 @@ const WhatsChangedHeader = memo<{
   },
 );
 
+const formatStateKey = (key: string | number) =>
+  typeof key === 'number' ? `hook ${key}` : key;
+
+const RenderCauseOriginItem = ({
+  origin,
+}: { origin: RenderCauseOrigin | null }) => {
+  if (!origin) {
+    return (
+      <div className="text-[#666]">
+        Started above the components below, e.g. by a root render
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-x-1.5 truncate">
+      <span className="text-[#A855F7]">{origin.name}</span>
+      {origin.state.length > 0 && (
+        <span className="text-[#888] truncate">
+          state changed: {origin.state.map(formatStateKey).join(', ')}
+        </span>
+      )}
+      {origin.context.length > 0 && (
+        <span className="text-[#888] truncate">
+          context changed: {origin.context.join(', ')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const RenderCauseSection = memo(() => {
+  const renderCause = useComputed(() => {
+    const { currentIndex, updates } = timelineState.value;
+    return updates[currentIndex]?.renderCause ?? null;
+  }).value;
+
+  // when the inspected component's own state or context changed, the sections above already say why
+  if (!renderCause?.chain.length) {
+    return null;
+  }
+
+  return (
+    <div className="pb-2">
+      <div className="text-xs text-[#888] mb-1.5">Why did this render?</div>
+      <div className="flex flex-col gap-1 text-xs">
+        <RenderCauseOriginItem origin={renderCause.origin} />
+        {renderCause.chain.map((link, index) => (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: the same component can appear twice in a chain
+            key={index}
+            className="flex items-center gap-x-1.5 truncate"
+            style={{ paddingLeft: Math.min(index + 1, 8) * 8 }}
+          >
+            <span className="text-[#666]">↳</span>
+            <span
+              className={cn(
+                'text-white',
+                index === renderCause.chain.length - 1 && 'font-medium',
+              )}
+            >
+              {link.name}
+            </span>
+            <span className="text-[#666] truncate">
+              {link.props.length
+                ? `props: ${link.props.join(', ')}`
+                : 'parent re-rendered, same props'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+const formatStackFrame = (frame: StackFrame) =>
+  `${frame.functionName ?? '(anonymous)'} ${formatSource(frame)}`;
+
+const UpdateOriginItem = ({ frames }: { frames: Array<StackFrame> }) => {
+  const [frame] = frames;
+  return (
+    <button
+      type="button"
+      title={`Open in editor\n\n${frames.map(formatStackFrame).join('\n')}`}
+      onClick={() => openInEditor(frame)}
+      className="block max-w-full pl-[18px] text-left text-[10px] text-[#888] truncate hover:text-white"
+    >
+      set
+      {frame.functionName && (
+        <>
+          {' '}
+          by{' '}
+          <span className="font-mono text-[#A855F7]">
+            {frame.functionName}
+          </span>
+        </>
+      )}{' '}
+      at {formatSource(frame)}
+    </button>
+  );
+};
+
+const StoreSubscriptionItem = ({
+  subscription,
+}: { subscription: StoreSubscription }) => {
+  const { source, updates } = subscription;
+  return (
+    <div className="flex flex-col pl-[18px] text-[10px] text-[#888]">
+      <span className="truncate">
+        <span className="font-mono text-[#A855F7]">{source}</span>
+        {updates.length ? '' : ', the selected value changed'}
+      </span>
+      {updates.map((update, index) => (
+        <span
+          // biome-ignore lint/suspicious/noArrayIndexKey: a store can update twice before a commit
+          key={index}
+          className="truncate"
+        >
+          {describeStoreUpdate(update)}, re-rendered {update.components}{' '}
+          {update.components === 1 ? 'component' : 'components'}
+        </span>
+      ))}
+    </div>
+  );
+};
+
 interface SectionProps {
   title: string;
   isExpanded: boolean;
@@ -383,6 +520,7 @@ const Section = memo(({ title, isExpanded }: SectionProps) => {
   const refChangesValues = useRef(new Map<string | number, ChangeValues>());
   const refLatestChanges = useRef<Change[]>([]);
   const [changes, setChanges] = useState<Change[]>([]);
+  const [wastedRenders, setWastedRenders] = useState(0);
 
   const [expandedFns, setExpandedFns] = useState(new Set<string>());
   const [expandedEntries, setExpandedEntries] = useState(new Set<string>());
@@ -401,6 +539,7 @@ const Section = memo(({ title, isExpanded }: SectionProps) => {
 
       refFiberInfo.current = currentUpdate?.fiberInfo;
       refLastUpdated.current.clear();
+      setWastedRenders(currentUpdate?.wastedRenders ?? 0);
 
       const changesMap = new Map<string | number, Change>(
         refLatestChanges.current.map((c) => [c.name, c]),
@@ -430,6 +569,9 @@ const Section = memo(({ title, isExpanded }: SectionProps) => {
             currError,
             diff,
             isFunction: typeof value === 'function',
+            unstableSuggestion: currentData.unstable?.get(name),
+            origin: currentData.origins?.get(name),
+            store: currentData.stores?.get(name),
           });
 
           const change = { name, value, prevValue, count };
@@ -477,7 +619,18 @@ const Section = memo(({ title, isExpanded }: SectionProps) => {
 
   return (
     <div className="pb-2">
-      <div className="text-xs text-[#888] mb-1.5">{title}</div>
+      <div className="flex items-center text-xs text-[#888] mb-1.5">
+        {title}
+        {title === 'Props' && wastedRenders > 0 && (
+          <span
+            title="Re-renders where every changed prop was a new function or object that looked the same"
+            className="ml-auto text-yellow-500"
+          >
+            {wastedRenders} wasted {wastedRenders === 1 ? 'render' : 'renders'}{' '}
+            from unstable props
+          </span>
+        )}
+      </div>
       <div className="flex flex-col gap-2">
         {changes.map((change) => {
           const isEntryExpanded = expandedEntries.has(String(change.name));
@@ -512,9 +665,25 @@ const Section = memo(({ title, isExpanded }: SectionProps) => {
                       isFunction={values.isFunction}
                       showWarning={values.diff.changes.length === 0}
                     />
+                    {values.unstableSuggestion && (
+                      <span className="rounded py-[1px] px-1 text-[10px] bg-yellow-500/20 text-yellow-500">
+                        unstable
+                      </span>
+                    )}
                   </div>
                 </div>
               </button>
+              {values.unstableSuggestion && (
+                <div className="pl-[18px] text-[10px] text-[#888] truncate">
+                  {values.unstableSuggestion}
+                </div>
+              )}
+              {values.store && (
+                <StoreSubscriptionItem subscription={values.store} />
+              )}
+              {values.origin?.length ? (
+                <UpdateOriginItem frames={values.origin} />
+              ) : null}
               <div
                 className={cn(
                   'react-scan-expandable',
@@ -575,6 +744,9 @@ type ChangeValues = {
     }[];
   };
   isFunction: boolean;
+  unstableSuggestion?: string;
+  origin?: Array<StackFrame>;
+  store?: StoreSubscription;
 };
 
 const AccessError = ({
@@ -0,0 +1,297 @@
+import type { ComponentChildren } from 'preact';
+import { useCallback, useEffect, useState } from 'preact/hooks';
+import {
+  type RenderBreakpoint,
+  clearBreakpoints,
+  describeBreakpointCondition,
+  removeBreakpoint,
+  signalBreakpoints,
+  toggleBreakpoint,
+} from '~core/breakpoints';
+import {
+  type ComponentMatcher,
+  parseComponentMatcher,
+  serializeComponentMatchers,
+} from '~core/component-filter';
+import { type Options, ReactScanInternals, setOptions } from '~core/index';
+import { Icon } from '~web/components/icon';
+import { Toggle } from '~web/components/toggle';
+import { cn } from '~web/utils/helpers';
+import { resumeAudioContext } from '~web/utils/sound';
+
+type BooleanOption =
+  | 'log'
+  | 'playSound'
+  | 'trackUnnecessaryRenders'
+  | 'trackUpdateOrigins'
+  | 'alwaysShowLabels';
+
+type FilterOption = 'include' | 'exclude';
+
+const ANIMATION_SPEEDS: Array<NonNullable<Options['animationSpeed']>> = [
+  'slow',
+  'fast',
+  'off',
+];
+
+const SettingsSection = ({
+  title,
+  children,
+}: { title: string; children: ComponentChildren }) => (
+  <div className="flex flex-col border-b border-[#222]">
+    <div className="py-1.5 px-3 text-[10px] uppercase text-neutral-500">
+      {title}
+    </div>
+    {children}
+  </div>
+);
+
+const SettingsRow = ({
+  label,
+  description,
+  isActive,
+  children,
+}: {
+  label: string;
+  description?: string;
+  isActive?: boolean;
+  children: ComponentChildren;
+}) => (
+  <div className="flex items-center justify-between gap-x-3 py-1.5 px-3">
+    <div className="flex flex-col min-w-0">
+      <span
+        className={cn('text-xs text-neutral-400', isActive && 'text-white')}
+      >
+        {label}
+      </span>
+      {description && (
+        <span className="text-[10px] text-neutral-500">{description}</span>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+const SettingsToggle = ({
+  option,
+  label,
+  description,
+}: {
+  option: BooleanOption;
+  label: string;
+  description?: string;
+}) => {
+  const checked = !!ReactScanInternals.options.value[option];
+
+  const handleChange = useCallback(
+    (e: Event) => {
+      const value = (e.currentTarget as HTMLInputElement).checked;
+      if (option === 'playSound' && value) {
+        resumeAudioContext();
+      }
+      setOptions({ [option]: value });
+    },
+    [option],
+  );
+
+  return (
+    <SettingsRow label={label} description={description} isActive={checked}>
+      <Toggle checked={checked} onChange={handleChange} />
+    </SettingsRow>
+  );
+};
+
+const AnimationSpeed = () => {
+  const current = ReactScanInternals.options.value.animationSpeed ?? 'fast';
+
+  return (
+    <SettingsRow label="Animation speed" isActive>
+      <div className="flex items-center rounded bg-[#1e1e1e] p-0.5">
+        {ANIMATION_SPEEDS.map((speed) => (
+          <button
+            key={speed}
+            type="button"
+            onClick={() => setOptions({ animationSpeed: speed })}
+            className={cn(
+              'py-0.5 px-2 rounded text-xs capitalize text-neutral-400',
+              'hover:text-white',
+              current === speed && 'bg-[#5f3f9a] text-white',
+            )}
+          >
+            {speed}
+          </button>
+        ))}
+      </div>
+    </SettingsRow>
+  );
+};
+
+const formatFilter = (matchers: Array<ComponentMatcher> | undefined) =>
+  serializeComponentMatchers(matchers)?.join(', ') ?? null;
+
+const parseFilter = (value: string) =>
+  value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(parseComponentMatcher);
+
+const FilterInput = ({
+  option,
+  label,
+  description,
+}: {
+  option: FilterOption;
+  label: string;
+  description: string;
+}) => {
+  const matchers = ReactScanInternals.options.value[option];
+  const formatted = formatFilter(matchers);
+  // lists with component references can only be changed from code
+  const isEditable = formatted !== null;
+  const [value, setValue] = useState(formatted ?? '');
+
+  useEffect(() => {
+    setValue(formatted ?? '');
+  }, [formatted]);
+
+  const handleCommit = useCallback(() => {
+    if (!isEditable || value === formatted) return;
+    setOptions({ [option]: parseFilter(value) });
+  }, [option, value, formatted, isEditable]);
+
+  return (
+    <div className="flex flex-col gap-y-1 py-1.5 px-3">
+      <span className={cn('text-xs text-neutral-400', value && 'text-white')}>
+        {label}
+      </span>
+      <input
+        type="text"
+        value={isEditable ? value : 'Set from code with component references'}
+        disabled={!isEditable}
+        placeholder="Header, /^Checkout/"
+        onInput={(e) => setValue(e.currentTarget.value)}
+        onBlur={handleCommit}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          }
+        }}
+        className={cn(
+          'h-7 px-2 rounded',
+          'border border-transparent focus:border-[#454545]',
+          'bg-[#1e1e1e] text-xs text-neutral-300',
+          'outline-none',
+          'disabled:text-neutral-500',
+        )}
+      />
+      <span className="text-[10px] text-neutral-500">{description}</span>
+    </div>
+  );
+};
+
+const BreakpointRow = ({ breakpoint }: { breakpoint: RenderBreakpoint }) => (
+  <SettingsRow
+    label={breakpoint.componentName}
+    description={`Pause when it ${describeBreakpointCondition(breakpoint.condition)}`}
+    isActive={breakpoint.enabled}
+  >
+    <div className="flex items-center gap-x-2">
+      <Toggle
+        checked={breakpoint.enabled}
+        onChange={() => toggleBreakpoint(breakpoint.id)}
+      />
+      <button
+        type="button"
+        title="Remove breakpoint"
+        onClick={() => removeBreakpoint(breakpoint.id)}
+        className="text-neutral-500 hover:text-white"
+      >
+        <Icon name="icon-close" size={12} />
+      </button>
+    </div>
+  </SettingsRow>
+);
+
+const Breakpoints = () => {
+  const breakpoints = signalBreakpoints.value;
+
+  if (!breakpoints.length) {
+    return (
+      <div className="py-1.5 px-3 text-[10px] text-neutral-500">
+        Add breakpoints from the inspector to pause in the debugger when a
+        component renders
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {breakpoints.map((breakpoint) => (
+        <BreakpointRow key={breakpoint.id} breakpoint={breakpoint} />
+      ))}
+      <button
+        type="button"
+        onClick={clearBreakpoints}
+        className="self-start py-1.5 px-3 text-xs text-neutral-500 hover:text-white"
+      >
+        Remove all
+      </button>
+    </>
+  );
+};
+
+export const ViewSettings = () => {
+  return (
+    <div className="flex-1 flex flex-col overflow-y-auto">
+      <SettingsSection title="Output">
+        <SettingsToggle option="log" label="Log renders to the console" />
+        <SettingsToggle
+          option="playSound"
+          label="Play sound"
+          description="Clicks on every render, louder for slower renders"
+        />
+      </SettingsSection>
+
+      <SettingsSection title="Outlines">
+        <AnimationSpeed />
+        <SettingsToggle
+          option="alwaysShowLabels"
+          label="Always show labels"
+          description="Keep labels visible until their outline fades out"
+        />
+        <SettingsToggle
+          option="trackUnnecessaryRenders"
+          label="Track unnecessary renders"
+          description="Gray outlines for renders that didn't change the DOM"
+        />
+      </SettingsSection>
+
+      <SettingsSection title="Inspector">
+        <SettingsToggle
+          option="trackUpdateOrigins"
+          label="Record update origins"
+          description="Show which code called the setter of a changed state"
+        />
+      </SettingsSection>
+
+      <SettingsSection title="Components">
+        <FilterInput
+          option="include"
+          label="Only scan"
+          description="Comma separated display names or /regexes/, empty scans everything"
+        />
+        <FilterInput
+          option="exclude"
+          label="Never scan"
+          description="Takes precedence over the list above"
+        />
+      </SettingsSection>
+
+      <SettingsSection title="Breakpoints">
+        <Breakpoints />
+      </SettingsSection>
+    </div>
+  );
+};
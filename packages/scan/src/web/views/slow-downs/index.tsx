@@ -1,7 +1,156 @@
+import type { Fiber } from 'bippy';
+import { useCallback } from 'preact/hooks';
+import { Store } from '~core/index';
+import { Icon } from '~web/components/icon';
+import {
+  type SlowDown,
+  type SlowDownComponent,
+  signalSlowDowns,
+} from '~web/state';
+import { cn } from '~web/utils/helpers';
+import { findComponentDOMNode } from '~web/views/inspector/utils';
+import { clearSlowDowns } from './utils';
+
+const formatTime = (time: number) =>
+  time < 0.1 - Number.EPSILON ? '< 0.1ms' : `${Number(time.toFixed(1))}ms`;
+
+const focusFiber = (fiber: Fiber | null | undefined) => {
+  if (!fiber) return;
+
+  const element = findComponentDOMNode(fiber);
+  if (!element?.isConnected) return;
+
+  Store.inspectState.value = {
+    kind: 'focused',
+    focusedDomElement: element,
+    fiber,
+  };
+};
+
+const SlowDownComponentItem = ({
+  component,
+}: { component: SlowDownComponent }) => {
+  const handleClick = useCallback(
+    (e: Event) => {
+      e.stopPropagation();
+      focusFiber(component.fiber.deref());
+    },
+    [component],
+  );
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title={`Inspect ${component.name}`}
+      className={cn(
+        'flex items-center gap-x-1',
+        'py-0.5 px-1.5',
+        'rounded bg-[#1E1E1E] hover:bg-[#2A2A2A]',
+        'text-xs text-neutral-300',
+      )}
+    >
+      <span className="truncate text-[#A855F7]">{component.name}</span>
+      {component.count > 1 && (
+        <span className="text-neutral-500">×{component.count}</span>
+      )}
+      {component.selfTime > 0 && (
+        <span className="text-neutral-500">
+          {formatTime(component.selfTime)}
+        </span>
+      )}
+    </button>
+  );
+};
+
+const SlowDownItem = ({ slowDown }: { slowDown: SlowDown }) => {
+  const { kind, duration, target, targetFiber, components } = slowDown;
+
+  const handleClick = useCallback(() => {
+    // empty once the unmounted fibers were garbage collected
+    focusFiber(targetFiber?.deref() ?? components[0]?.fiber.deref());
+  }, [targetFiber, components]);
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-y-1.5',
+        'py-2 px-3',
+        'border-b border-[#222]',
+        'cursor-pointer hover:bg-[#141414]',
+      )}
+      onClick={handleClick}
+      onKeyDown={(e) => e.key === 'Enter' && handleClick()}
+    >
+      <div className="flex items-center gap-x-2 text-xs">
+        <span
+          className={cn(
+            'rounded py-[1px] px-1 text-[10px]',
+            kind === 'interaction'
+              ? 'bg-[#5f3f9a] text-white'
+              : 'bg-neutral-700 text-neutral-300',
+          )}
+        >
+          {kind === 'interaction' ? 'interaction' : 'long frame'}
+        </span>
+        <span
+          className={cn(
+            'font-bold',
+            duration >= 500 ? 'text-red-400' : 'text-yellow-300',
+          )}
+        >
+          {formatTime(duration)}
+        </span>
+        <span className="truncate text-neutral-400" title={target ?? ''}>
+          {target ?? 'unknown target'}
+        </span>
+      </div>
+      {components.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {components.map((component) => (
+            <SlowDownComponentItem key={component.name} component={component} />
+          ))}
+        </div>
+      ) : (
+        <span className="text-xs text-neutral-500">
+          No components rendered during this slow down
+        </span>
+      )}
+    </div>
+  );
+};
+
 export const ViewSlowDowns = () => {
+  const { entries, slowDowns, longFrames } = signalSlowDowns.value;
+
+  if (!entries.length) {
+    return (
+      <div className="flex-1 p-3 text-xs text-neutral-500">
+        No slow downs detected yet
+      </div>
+    );
+  }
+
   return (
-    <div className="flex-1 p-3">
-      Slow Downs goes here
+    <div className="flex-1 flex flex-col overflow-y-auto">
+      <div className="flex items-center justify-between py-1 px-3 border-b border-[#222]">
+        <span className="text-xs text-neutral-500">
+          {slowDowns} slow {slowDowns === 1 ? 'interaction' : 'interactions'},{' '}
+          {longFrames} long {longFrames === 1 ? 'frame' : 'frames'}
+        </span>
+        <button
+          type="button"
+          onClick={clearSlowDowns}
+          title="Clear slow downs"
+          className="flex items-center gap-x-1 text-xs text-neutral-400 hover:text-white"
+        >
+          <Icon name="icon-close" size={12} />
+          Clear
+        </button>
+      </div>
+      {entries.map((slowDown) => (
+        <SlowDownItem key={slowDown.id} slowDown={slowDown} />
+      ))}
     </div>
-  )
-}
+  );
+};
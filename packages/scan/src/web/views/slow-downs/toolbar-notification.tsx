@@ -4,6 +4,7 @@ import { Icon } from '~web/components/icon';
 import { useDelayedValue } from '~web/hooks/use-delayed-value';
 import { signalSlowDowns, signalWidget, signalWidgetViews } from '~web/state';
 import { cn } from '~web/utils/helpers';
+import { isRenderLoopBannerVisible } from '~web/widget/render-loop-banner';
 
 export const ToolbarNotification = () => {
   const slowDowns = signalSlowDowns.value.slowDowns;
@@ -34,7 +35,8 @@ export const ToolbarNotification = () => {
   const corner = signalWidget.value.corner;
   const isWidgetTopOfTheScreen = ['top-left', 'top-right'].includes(corner);
 
-  if (!isMounted) return null;
+  // the render loop banner takes the same spot
+  if (!isMounted || isRenderLoopBannerVisible()) return null;
 
   return (
     <button
@@ -0,0 +1,239 @@
+import { type Fiber, getDisplayName } from 'bippy';
+import type { Render } from '~core/instrumentation';
+import {
+  getFirstNamedAncestorCompositeFiber,
+  setupLongFrameListener,
+  setupPerformanceListener,
+} from '~core/monitor/performance';
+import type {
+  PerformanceInteraction,
+  PerformanceLongFrameEntry,
+} from '~core/monitor/types';
+import {
+  type SlowDown,
+  type SlowDownComponent,
+  signalSlowDowns,
+} from '~web/state';
+
+export const SLOW_INTERACTION_THRESHOLD_MS = 200;
+export const MAX_SLOW_DOWNS = 50;
+
+// performance entries are delivered after the frame they describe, so we
+// keep a short history of renders to attribute them once they arrive
+const RENDER_HISTORY_MS = 10_000;
+const MAX_RENDER_HISTORY = 5_000;
+
+interface RecordedRender {
+  fiber: WeakRef<Fiber>;
+  name: string;
+  selfTime: number;
+  timestamp: number;
+}
+
+let renderHistory: Array<RecordedRender> = [];
+let isTracking = false;
+let lastSlowDownId = 0;
+// interaction id to slow down id, a later entry can make a listed interaction slower
+const reportedInteractions = new Map<string, string>();
+
+export const recordSlowDownRender = (fiber: Fiber, render: Render) => {
+  if (!isTracking || !render.componentName) return;
+
+  const timestamp = performance.now();
+  renderHistory.push({
+    fiber: new WeakRef(fiber),
+    name: render.componentName,
+    selfTime: render.time ?? 0,
+    timestamp,
+  });
+
+  if (renderHistory.length > MAX_RENDER_HISTORY) {
+    renderHistory = renderHistory.slice(-MAX_RENDER_HISTORY / 2);
+  }
+};
+
+const pruneRenderHistory = () => {
+  const cutoff = performance.now() - RENDER_HISTORY_MS;
+  let index = 0;
+  while (
+    index < renderHistory.length &&
+    renderHistory[index].timestamp < cutoff
+  ) {
+    index++;
+  }
+  if (index > 0) {
+    renderHistory = renderHistory.slice(index);
+  }
+};
+
+export const getRendersBetween = (
+  startTime: number,
+  endTime: number,
+): Array<SlowDownComponent> => {
+  const components = new Map<string, SlowDownComponent>();
+
+  for (const render of renderHistory) {
+    if (render.timestamp < startTime || render.timestamp > endTime) continue;
+
+    const existing = components.get(render.name);
+    if (existing) {
+      existing.count++;
+      existing.selfTime += render.selfTime;
+      existing.fiber = render.fiber;
+    } else {
+      components.set(render.name, {
+        name: render.name,
+        count: 1,
+        selfTime: render.selfTime,
+        fiber: render.fiber,
+      });
+    }
+  }
+
+  return Array.from(components.values()).sort(
+    (a, b) => b.selfTime - a.selfTime || b.count - a.count,
+  );
+};
+
+const describeElement = (element: Element) => {
+  let description = element.tagName.toLowerCase();
+  if (element.id) {
+    description += `#${element.id}`;
+  }
+  return description;
+};
+
+const overlaps = (a: SlowDown, b: SlowDown) =>
+  a.startTime < b.startTime + b.duration &&
+  b.startTime < a.startTime + a.duration;
+
+export const addSlowDown = (slowDown: SlowDown) => {
+  let entries = signalSlowDowns.value.entries;
+
+  // a slow interaction is usually also reported as a long frame, keep the
+  // interaction since it knows what the user was interacting with
+  if (slowDown.kind === 'long-frame') {
+    for (const entry of entries) {
+      if (entry.kind === 'interaction' && overlaps(entry, slowDown)) return;
+    }
+  } else {
+    entries = entries.filter(
+      (entry) => entry.kind !== 'long-frame' || !overlaps(entry, slowDown),
+    );
+  }
+
+  const { slowDowns, longFrames } = signalSlowDowns.value;
+  signalSlowDowns.value = {
+    ...signalSlowDowns.value,
+    slowDowns: slowDown.kind === 'interaction' ? slowDowns + 1 : slowDowns,
+    longFrames: slowDown.kind === 'long-frame' ? longFrames + 1 : longFrames,
+    entries: [slowDown, ...entries].slice(0, MAX_SLOW_DOWNS),
+  };
+};
+
+const updateSlowDown = (id: string, update: Partial<SlowDown>) => {
+  const { entries } = signalSlowDowns.value;
+  const index = entries.findIndex((entry) => entry.id === id);
+  // cleared or rolled out of the list
+  if (index === -1) return;
+
+  const nextEntries = entries.slice();
+  nextEntries[index] = { ...entries[index], ...update };
+  signalSlowDowns.value = { ...signalSlowDowns.value, entries: nextEntries };
+};
+
+const onInteraction = (interaction: PerformanceInteraction) => {
+  if (interaction.latency < SLOW_INTERACTION_THRESHOLD_MS) return;
+
+  pruneRenderHistory();
+
+  const components = getRendersBetween(
+    interaction.startTime,
+    interaction.startTime + interaction.latency,
+  );
+  const reportedId = reportedInteractions.get(interaction.id);
+  if (reportedId) {
+    updateSlowDown(reportedId, { duration: interaction.latency, components });
+    return;
+  }
+
+  const { target } = interaction;
+  const targetFiber = target
+    ? getFirstNamedAncestorCompositeFiber(target)
+    : null;
+  const targetName = targetFiber ? getDisplayName(targetFiber.type) : null;
+
+  let targetDescription: string | null = null;
+  if (target) {
+    targetDescription = targetName
+      ? `${targetName} > ${describeElement(target)}`
+      : describeElement(target);
+  }
+
+  const id = String(++lastSlowDownId);
+  reportedInteractions.set(interaction.id, id);
+  if (reportedInteractions.size > MAX_SLOW_DOWNS) {
+    const [oldestId] = reportedInteractions.keys();
+    reportedInteractions.delete(oldestId);
+  }
+
+  addSlowDown({
+    id,
+    kind: 'interaction',
+    startTime: interaction.startTime,
+    duration: interaction.latency,
+    timestamp: interaction.timestamp,
+    target: targetDescription,
+    targetFiber: targetFiber ? new WeakRef(targetFiber) : null,
+    components,
+  });
+};
+
+const onLongFrame = (entry: PerformanceLongFrameEntry) => {
+  pruneRenderHistory();
+
+  const invoker = entry.scripts?.find((script) => script.invoker)?.invoker;
+
+  addSlowDown({
+    id: String(++lastSlowDownId),
+    kind: 'long-frame',
+    startTime: entry.startTime,
+    duration: entry.duration,
+    timestamp: Date.now(),
+    target: invoker ?? null,
+    targetFiber: null,
+    components: getRendersBetween(
+      entry.startTime,
+      entry.startTime + entry.duration,
+    ),
+  });
+};
+
+export const startSlowDownsTracking = () => {
+  if (isTracking) return () => {};
+  isTracking = true;
+
+  // an interaction can become slow with an entry that arrives after the first one
+  const disconnectInteractions = setupPerformanceListener(
+    onInteraction,
+    onInteraction,
+  );
+  const disconnectLongFrames = setupLongFrameListener(onLongFrame);
+
+  return () => {
+    isTracking = false;
+    renderHistory = [];
+    reportedInteractions.clear();
+    disconnectInteractions();
+    disconnectLongFrames();
+  };
+};
+
+export const clearSlowDowns = () => {
+  signalSlowDowns.value = {
+    ...signalSlowDowns.value,
+    slowDowns: 0,
+    longFrames: 0,
+    entries: [],
+  };
+};
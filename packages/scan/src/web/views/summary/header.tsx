@@ -0,0 +1,11 @@
+import { Icon } from '~web/components/icon';
+import { cn } from '~web/utils/helpers';
+
+export const HeaderSummary = () => {
+  return (
+    <div className={cn('absolute inset-0 flex items-center gap-x-2')}>
+      <Icon name="icon-summary" />
+      Summary
+    </div>
+  );
+};
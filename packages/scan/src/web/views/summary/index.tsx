@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'preact/hooks';
+import { signalWidgetViews } from '~web/state';
+import { cn } from '~web/utils/helpers';
+import {
+  type ComponentSummary,
+  type SummarySortKey,
+  getComponentSummaries,
+  highlightComponent,
+  sortComponentSummaries,
+} from './utils';
+
+// render data is mutated in place, so the table polls instead of subscribing
+const REFRESH_INTERVAL_MS = 1000;
+
+const formatTime = (time: number) =>
+  time < 0.1 - Number.EPSILON ? '< 0.1ms' : `${Number(time.toFixed(1))}ms`;
+
+const formatRatio = (ratio: number | null) =>
+  ratio === null ? '-' : `${Math.round(ratio * 100)}%`;
+
+interface Column {
+  key: SummarySortKey;
+  label: string;
+  title: string;
+  format: (summary: ComponentSummary) => string;
+}
+
+const COLUMNS: Array<Column> = [
+  {
+    key: 'renders',
+    label: 'Renders',
+    title: 'Mounts and re-renders',
+    format: (summary) => String(summary.renders),
+  },
+  {
+    key: 'mounts',
+    label: 'Mounts',
+    title: 'Mounts',
+    format: (summary) => String(summary.mounts),
+  },
+  {
+    key: 'unmounts',
+    label: 'Unmounts',
+    title: 'Unmounts',
+    format: (summary) => String(summary.unmounts),
+  },
+  {
+    key: 'totalSelfTime',
+    label: 'Total',
+    title: 'Total self time',
+    format: (summary) => formatTime(summary.totalSelfTime),
+  },
+  {
+    key: 'averageSelfTime',
+    label: 'Avg',
+    title: 'Average self time',
+    format: (summary) => formatTime(summary.averageSelfTime),
+  },
+  {
+    key: 'unnecessaryRatio',
+    label: 'Unnec.',
+    title: 'Unnecessary renders, needs trackUnnecessaryRenders',
+    format: (summary) => formatRatio(summary.unnecessaryRatio),
+  },
+];
+
+const SummaryRow = ({
+  summary,
+  isSelected,
+  onSelect,
+}: {
+  summary: ComponentSummary;
+  isSelected: boolean;
+  onSelect: (summary: ComponentSummary) => void;
+}) => {
+  const handleClick = useCallback(() => {
+    onSelect(summary);
+  }, [summary, onSelect]);
+
+  return (
+    <tr
+      onClick={handleClick}
+      onKeyDown={(e) => e.key === 'Enter' && handleClick()}
+      title={`Highlight every ${summary.name} on the page`}
+      className={cn(
+        'cursor-pointer hover:bg-[#141414]',
+        'border-b border-[#222]',
+        isSelected && 'bg-[#1E1E1E]',
+      )}
+    >
+      <td className="py-1 pl-3 pr-1 max-w-40">
+        <div className="truncate text-[#A855F7]">{summary.name}</div>
+        {summary.topChangeReason && (
+          <div
+            className="truncate text-[10px] text-neutral-500"
+            title="Most common change, counted since the summary was first opened"
+          >
+            {summary.topChangeReason}
+          </div>
+        )}
+      </td>
+      {COLUMNS.map((column) => (
+        <td
+          key={column.key}
+          className="py-1 px-1 text-right text-neutral-300 whitespace-nowrap"
+        >
+          {column.format(summary)}
+        </td>
+      ))}
+    </tr>
+  );
+};
+
+const SummaryTable = () => {
+  const [summaries, setSummaries] = useState(getComponentSummaries);
+  const [sortKey, setSortKey] = useState<SummarySortKey>('totalSelfTime');
+  const [isAscending, setIsAscending] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSummaries(getComponentSummaries());
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleSort = useCallback(
+    (key: SummarySortKey) => {
+      if (key === sortKey) {
+        setIsAscending((isAscending) => !isAscending);
+        return;
+      }
+      setSortKey(key);
+      // names read best a to z, numbers largest first
+      setIsAscending(key === 'name');
+    },
+    [sortKey],
+  );
+
+  const handleSelect = useCallback((summary: ComponentSummary) => {
+    setSelectedId(summary.id);
+    highlightComponent(summary);
+  }, []);
+
+  if (!summaries.length) {
+    return (
+      <div className="flex-1 p-3 text-xs text-neutral-500">
+        No components rendered yet
+      </div>
+    );
+  }
+
+  const sortedSummaries = sortComponentSummaries(
+    summaries,
+    sortKey,
+    isAscending,
+  );
+  const sortIndicator = isAscending ? ' ↑' : ' ↓';
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-[#0A0A0A]">
+          <tr className="border-b border-[#222] text-neutral-400">
+            <th className="py-1 pl-3 pr-1 text-left font-normal">
+              <button type="button" onClick={() => handleSort('name')}>
+                Component{sortKey === 'name' && sortIndicator}
+              </button>
+            </th>
+            {COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                className="py-1 px-1 text-right font-normal whitespace-nowrap"
+              >
+                <button
+                  type="button"
+                  title={column.title}
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  {sortKey === column.key && sortIndicator}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedSummaries.map((summary) => (
+            <SummaryRow
+              key={summary.id}
+              summary={summary}
+              isSelected={summary.id === selectedId}
+              onSelect={handleSelect}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const ViewSummary = () => {
+  // only poll the render data while the view is open
+  if (signalWidgetViews.value.view !== 'summary') {
+    return null;
+  }
+
+  return <SummaryTable />;
+};
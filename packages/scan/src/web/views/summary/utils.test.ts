@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+import { installRDTHook } from 'bippy';
+import { describe, expect, it } from 'vitest';
+import { createInstrumentation, renderDataMap } from '~core/instrumentation';
+import {
+  type ComponentSummary,
+  getComponentSummaries,
+  sortComponentSummaries,
+} from './utils';
+
+// react-dom only reports commits to a devtools hook that exists when it loads
+installRDTHook();
+
+createInstrumentation('react-scan-summary-test', {
+  onCommitStart() {},
+  isValidFiber: () => true,
+  onRender() {},
+  onCommitFinish() {},
+  onError() {},
+  onPostCommitFiberRoot() {},
+  trackChanges: true,
+});
+
+const createSummary = (
+  summary: Partial<ComponentSummary> & Pick<ComponentSummary, 'id' | 'name'>,
+): ComponentSummary => ({
+  type: {},
+  renders: 0,
+  mounts: 0,
+  unmounts: 0,
+  totalSelfTime: 0,
+  averageSelfTime: 0,
+  unnecessaryRatio: null,
+  topChangeReason: null,
+  ...summary,
+});
+
+describe('getComponentSummaries', () => {
+  it('totals the renders, mounts and unmounts of every instance', async () => {
+    const { createElement, useState } = await import('react');
+    const { flushSync } = await import('react-dom');
+    const { createRoot } = await import('react-dom/client');
+
+    let setRows: (rows: Array<number>) => void = () => {};
+    const Row = ({ selected }: { selected: boolean }) =>
+      createElement('li', null, String(selected));
+    const List = () => {
+      const [rows, _setRows] = useState([0, 1, 2]);
+      setRows = _setRows;
+      return createElement(
+        'ul',
+        null,
+        rows.map((id) =>
+          createElement(Row, { key: id, selected: id === rows.length - 1 }),
+        ),
+      );
+    };
+
+    const root = createRoot(document.createElement('div'));
+    flushSync(() => root.render(createElement(List)));
+    expect(renderDataMap.get(Row)?.instances.size).toBe(3);
+
+    // the first row unmounts, the others re-render and the last one is selected
+    flushSync(() => setRows([1, 2]));
+
+    const row = getComponentSummaries().find(
+      (summary) => summary.name === 'Row',
+    );
+    expect(row).toMatchObject({
+      renders: 5,
+      mounts: 3,
+      unmounts: 1,
+      topChangeReason: 'prop selected',
+    });
+    expect(row?.averageSelfTime).toBe((row?.totalSelfTime ?? 0) / 5);
+    expect(renderDataMap.get(Row)?.instances.size).toBe(2);
+
+    root.unmount();
+    expect(renderDataMap.get(Row)).toMatchObject({ unmounts: 3 });
+    expect(renderDataMap.get(Row)?.instances.size).toBe(0);
+    expect(renderDataMap.get(List)?.instances.size).toBe(0);
+  });
+});
+
+describe('sortComponentSummaries', () => {
+  const summaries = [
+    createSummary({ id: 1, name: 'Header', renders: 4, unnecessaryRatio: 0 }),
+    createSummary({ id: 2, name: 'App', renders: 1 }),
+    createSummary({ id: 3, name: 'Row', renders: 9, unnecessaryRatio: 0.5 }),
+  ];
+  const getNames = (sorted: Array<ComponentSummary>) =>
+    sorted.map((summary) => summary.name);
+
+  it('sorts numbers and names in both directions', () => {
+    expect(
+      getNames(sortComponentSummaries(summaries, 'renders', false)),
+    ).toEqual(['Row', 'Header', 'App']);
+    expect(getNames(sortComponentSummaries(summaries, 'name', true))).toEqual([
+      'App',
+      'Header',
+      'Row',
+    ]);
+  });
+
+  it('sorts unchecked ratios below every checked one', () => {
+    expect(
+      getNames(sortComponentSummaries(summaries, 'unnecessaryRatio', true)),
+    ).toEqual(['App', 'Header', 'Row']);
+  });
+
+  it("doesn't sort in place", () => {
+    sortComponentSummaries(summaries, 'renders', true);
+    expect(getNames(summaries)).toEqual(['Header', 'App', 'Row']);
+  });
+});
@@ -0,0 +1,126 @@
+import { getFiberId, getNearestHostFibers, hasMemoCache } from 'bippy';
+import { replayOutlines } from 'src/new-outlines';
+import type { RecordedOutline } from 'src/new-outlines/types';
+import { renderDataMap, renderDataTypes } from '~core/instrumentation';
+
+export interface ComponentSummary {
+  // order in which the type was first seen, names aren't unique
+  id: number;
+  type: object;
+  name: string;
+  renders: number;
+  mounts: number;
+  unmounts: number;
+  totalSelfTime: number;
+  averageSelfTime: number;
+  // null until the unnecessary render check ran for the component
+  unnecessaryRatio: number | null;
+  topChangeReason: string | null;
+}
+
+export type SummarySortKey = Exclude<
+  keyof ComponentSummary,
+  'id' | 'type' | 'topChangeReason'
+>;
+
+const getTopChangeReason = (changeReasons: Map<string, number>) => {
+  let topReason: string | null = null;
+  let topCount = 0;
+  for (const [reason, count] of changeReasons) {
+    if (count > topCount) {
+      topReason = reason;
+      topCount = count;
+    }
+  }
+  return topReason;
+};
+
+export const getComponentSummaries = (): Array<ComponentSummary> => {
+  const summaries: Array<ComponentSummary> = [];
+
+  let id = 0;
+  for (const type of renderDataTypes) {
+    id++;
+    const renderData = renderDataMap.get(type);
+    if (!renderData?.displayName) continue;
+
+    const {
+      displayName,
+      renders,
+      mounts,
+      unmounts,
+      totalSelfTime,
+      checkedRenders,
+      unnecessaryRenders,
+      changeReasons,
+    } = renderData;
+
+    summaries.push({
+      id,
+      type,
+      name: displayName,
+      renders,
+      mounts,
+      unmounts,
+      totalSelfTime,
+      averageSelfTime: renders ? totalSelfTime / renders : 0,
+      unnecessaryRatio: checkedRenders
+        ? unnecessaryRenders / checkedRenders
+        : null,
+      topChangeReason: getTopChangeReason(changeReasons),
+    });
+  }
+
+  return summaries;
+};
+
+export const sortComponentSummaries = (
+  summaries: Array<ComponentSummary>,
+  key: SummarySortKey,
+  isAscending: boolean,
+) => {
+  const direction = isAscending ? 1 : -1;
+  return [...summaries].sort((a, b) => {
+    const valueA = a[key] ?? -1;
+    const valueB = b[key] ?? -1;
+    if (typeof valueA === 'string' || typeof valueB === 'string') {
+      return String(valueA).localeCompare(String(valueB)) * direction;
+    }
+    return (valueA - valueB) * direction;
+  });
+};
+
+/**
+ * Outlines every mounted instance of the component, returns how many are on the page
+ */
+export const highlightComponent = (summary: ComponentSummary) => {
+  const renderData = renderDataMap.get(summary.type);
+  if (!renderData) return 0;
+
+  const outlines: Array<RecordedOutline> = [];
+  for (const fiber of renderData.instances) {
+    const elements = getNearestHostFibers(fiber)
+      .map((hostFiber) => hostFiber.stateNode)
+      .filter(
+        (element): element is Element =>
+          element instanceof Element && element.isConnected,
+      );
+    if (!elements.length) continue;
+
+    outlines.push({
+      id: getFiberId(fiber),
+      name: summary.name,
+      count: 1,
+      elements,
+      didCommit: 1,
+      unnecessary: 0,
+      overBudget: 0,
+      selfTime: 0,
+      compiled: hasMemoCache(fiber) ? 1 : 0,
+      remounted: 0,
+    });
+  }
+
+  replayOutlines(outlines);
+  return outlines.length;
+};
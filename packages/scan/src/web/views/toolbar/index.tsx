@@ -1,25 +1,39 @@
-// @TODO: @pivanov - finish the pin functionality
-import { useSignalEffect } from '@preact/signals';
-import { useCallback } from 'preact/hooks';
+import { useComputed, useSignalEffect } from '@preact/signals';
+import { useCallback, useState } from 'preact/hooks';
 import {
   type LocalStorageOptions,
   ReactScanInternals,
   Store,
 } from '~core/index';
+import { isRecording, startRecording, stopRecording } from '~core/recording';
+import { downloadTraceEvents } from '~core/trace-event';
 import { Icon } from '~web/components/icon';
 import { Toggle } from '~web/components/toggle';
+import { signalWidgetViews } from '~web/state';
 import { cn, readLocalStorage, saveLocalStorage } from '~web/utils/helpers';
+import { isFiberPinned, pinFiber, unpinFiber } from '~web/utils/pin';
 import { constant } from '~web/utils/preact/constant';
+import { resumeAudioContext } from '~web/utils/sound';
+import { getCompositeFiberFromElement } from '~web/views/inspector/utils';
 import FpsMeter from '~web/widget/fps-meter';
 
 export const Toolbar = constant(() => {
-  // const refSettingsButton = useRef<HTMLButtonElement>(null);
-  // const [isPinned, setIsPinned] = useState(false);
-  // const [metadata, setMetadata] = useState<FiberMetadata | null>(null);
-
   const inspectState = Store.inspectState;
   const isInspectActive = inspectState.value.kind === 'inspecting';
   const isInspectFocused = inspectState.value.kind === 'focused';
+  const [isRecordingTrace, setIsRecordingTrace] = useState(isRecording);
+
+  const focusedFiber = useComputed(() => {
+    const state = Store.inspectState.value;
+    if (state.kind !== 'focused' || !state.focusedDomElement) return null;
+    return (
+      getCompositeFiberFromElement(state.focusedDomElement, state.fiber)
+        .parentCompositeFiber ?? null
+    );
+  });
+  const isPinned = useComputed(
+    () => !!focusedFiber.value && isFiberPinned(focusedFiber.value),
+  );
 
   const onToggleInspect = useCallback(() => {
     const currentState = Store.inspectState.value;
@@ -56,6 +70,10 @@ export const Toolbar = constant(() => {
     // todo: set a single source of truth
     const isPaused = !ReactScanInternals.instrumentation.isPaused.value;
     ReactScanInternals.instrumentation.isPaused.value = isPaused;
+    // sound enabled from code has no other click to start audio from
+    if (!isPaused && ReactScanInternals.options.value.playSound) {
+      resumeAudioContext();
+    }
     const existingLocalStorageOptions =
       readLocalStorage<LocalStorageOptions>('react-scan-options');
     saveLocalStorage('react-scan-options', {
@@ -64,9 +82,67 @@ export const Toolbar = constant(() => {
     });
   }, []);
 
-  // const onToggleSettings = useCallback(() => {
-  //   signalIsSettingsOpen.value = !signalIsSettingsOpen.value;
-  // }, []);
+  const onToggleRecording = useCallback(() => {
+    if (!isRecording()) {
+      startRecording();
+      setIsRecordingTrace(isRecording());
+      return;
+    }
+
+    const trace = stopRecording();
+    setIsRecordingTrace(false);
+    if (trace) {
+      downloadTraceEvents(trace);
+    }
+  }, []);
+
+  const onToggleSettings = useCallback(() => {
+    if (signalWidgetViews.value.view === 'settings') {
+      signalWidgetViews.value = {
+        view: 'none',
+      };
+      return;
+    }
+
+    Store.inspectState.value = {
+      kind: 'inspect-off',
+    };
+    signalWidgetViews.value = {
+      view: 'settings',
+    };
+  }, []);
+
+  const onToggleCommits = useCallback(() => {
+    if (signalWidgetViews.value.view === 'commits') {
+      signalWidgetViews.value = {
+        view: 'none',
+      };
+      return;
+    }
+
+    Store.inspectState.value = {
+      kind: 'inspect-off',
+    };
+    signalWidgetViews.value = {
+      view: 'commits',
+    };
+  }, []);
+
+  const onToggleSummary = useCallback(() => {
+    if (signalWidgetViews.value.view === 'summary') {
+      signalWidgetViews.value = {
+        view: 'none',
+      };
+      return;
+    }
+
+    Store.inspectState.value = {
+      kind: 'inspect-off',
+    };
+    signalWidgetViews.value = {
+      view: 'summary',
+    };
+  }, []);
 
   useSignalEffect(() => {
     const state = Store.inspectState.value;
@@ -75,27 +151,18 @@ export const Toolbar = constant(() => {
         kind: 'inspect-off',
       };
     }
-
-    // if (state.kind === 'focused' && state.fiber) {
-    //   const pinned = readLocalStorage<FiberMetadata>('react-scann-pinned');
-    //   setIsPinned(!!pinned);
-
-    //   const m = getFiberMetadata(state.fiber);
-    //   if (m !== null) {
-    //     setMetadata(m);
-    //   }
-    // }
   });
 
-  // const onTogglePin = useCallback(() => {
-  //   if (isPinned) {
-  //     removeLocalStorage('react-scann-pinned');
-  //     setIsPinned(false);
-  //   } else {
-  //     saveLocalStorage('react-scann-pinned', metadata);
-  //     setIsPinned(true);
-  //   }
-  // }, [isPinned, metadata]);
+  const onTogglePin = useCallback(() => {
+    const fiber = focusedFiber.peek();
+    if (isPinned.peek()) {
+      unpinFiber();
+      return;
+    }
+    if (fiber) {
+      pinFiber(fiber);
+    }
+  }, [focusedFiber, isPinned]);
 
   let inspectIcon = null;
   let inspectColor = '#999';
@@ -135,26 +202,74 @@ export const Toolbar = constant(() => {
           }
         />
 
-        {/* {
-          isInspectFocused && (
-            <button
-              type="button"
-              title={isPinned ? 'Unpin component' : 'Pin component'}
-              onClick={onTogglePin}
-              className="button flex items-center justify-center px-3 h-full"
-            >
-              <Icon
-                name={isPinned ? 'icon-lock-open' : 'icon-lock'}
-                className={cn(
-                  'text-neutral-400',
-                  {
-                    'text-white': isPinned,
-                  }
-                )}
-              />
-            </button>
-          )
-        } */}
+        <button
+          type="button"
+          title={
+            isRecordingTrace
+              ? 'Stop recording and download trace'
+              : 'Record render trace'
+          }
+          onClick={onToggleRecording}
+          className="button flex items-center justify-center px-3 h-full"
+          style={{ color: isRecordingTrace ? '#ef4444' : '#999' }}
+        >
+          <Icon name="icon-record" />
+        </button>
+
+        <button
+          type="button"
+          title="Settings"
+          onClick={onToggleSettings}
+          className="button flex items-center justify-center px-3 h-full"
+          style={{
+            color:
+              signalWidgetViews.value.view === 'settings' ? '#8e61e3' : '#999',
+          }}
+        >
+          <Icon name="icon-settings" />
+        </button>
+
+        <button
+          type="button"
+          title="Commit timeline"
+          onClick={onToggleCommits}
+          className="button flex items-center justify-center px-3 h-full"
+          style={{
+            color:
+              signalWidgetViews.value.view === 'commits' ? '#8e61e3' : '#999',
+          }}
+        >
+          <Icon name="icon-commits" />
+        </button>
+
+        <button
+          type="button"
+          title="Component summary"
+          onClick={onToggleSummary}
+          className="button flex items-center justify-center px-3 h-full"
+          style={{
+            color:
+              signalWidgetViews.value.view === 'summary' ? '#8e61e3' : '#999',
+          }}
+        >
+          <Icon name="icon-summary" />
+        </button>
+
+        {isInspectFocused && (
+          <button
+            type="button"
+            title={
+              isPinned.value
+                ? 'Unpin component'
+                : 'Pin component, it stays inspected after reloads'
+            }
+            onClick={onTogglePin}
+            className="button flex items-center justify-center px-3 h-full"
+            style={{ color: isPinned.value ? '#8e61e3' : '#999' }}
+          >
+            <Icon name={isPinned.value ? 'icon-lock' : 'icon-lock-open'} />
+          </button>
+        )}
 
         {/* todo, only render arrows when inspecting element */}
 
@@ -4,10 +4,12 @@ import { Icon } from '~web/components/icon';
 import { useDelayedValue } from '~web/hooks/use-delayed-value';
 import { signalWidgetViews } from '~web/state';
 import { cn } from '~web/utils/helpers';
+import { HeaderCommits } from '~web/views/commits/header';
 import { HeaderInspect } from '~web/views/inspector/header';
 import { getOverrideMethods } from '~web/views/inspector/utils';
 import { HeaderSettings } from '~web/views/settings/header';
 import { HeaderSlowDowns } from '~web/views/slow-downs/header';
+import { HeaderSummary } from '~web/views/summary/header';
 
 // const REPLAY_DELAY_MS = 300;
 
@@ -115,6 +117,8 @@ export const Header = () => {
   const isHeaderInspect = signalWidgetViews.value.view === 'inspector';
   const isHeaderSlowDowns = signalWidgetViews.value.view === 'slow-downs';
   const isHeaderSettings = signalWidgetViews.value.view === 'settings';
+  const isHeaderCommits = signalWidgetViews.value.view === 'commits';
+  const isHeaderSummary = signalWidgetViews.value.view === 'summary';
 
   return (
     <div className="react-scan-header">
@@ -146,6 +150,24 @@ export const Header = () => {
         >
           <HeaderSettings />
         </div>
+        <div
+          className={cn(
+            'react-scan-header-item',
+            isHeaderCommits && 'is-visible',
+            !isInitialView && '!duration-0',
+          )}
+        >
+          <HeaderCommits />
+        </div>
+        <div
+          className={cn(
+            'react-scan-header-item',
+            isHeaderSummary && 'is-visible',
+            !isInitialView && '!duration-0',
+          )}
+        >
+          <HeaderSummary />
+        </div>
       </div>
 
       {/* {Store.inspectState.value.kind !== 'inspect-off' && <BtnReplay />} */}
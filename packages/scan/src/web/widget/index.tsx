@@ -5,6 +5,7 @@ import { cn, saveLocalStorage } from '~web/utils/helpers';
 import { Content } from '~web/views';
 import { ScanOverlay } from '~web/views/inspector/overlay';
 import { ToolbarNotification } from '~web/views/slow-downs/toolbar-notification';
+import { startSlowDownsTracking } from '~web/views/slow-downs/utils';
 import { LOCALSTORAGE_KEY, MIN_SIZE, SAFE_AREA } from '../constants';
 import {
   defaultWidgetConfig,
@@ -19,6 +20,7 @@ import {
   calculatePosition,
   getBestCorner,
 } from './helpers';
+import { RenderLoopBanner } from './render-loop-banner';
 import { ResizeHandle } from './resize-handle';
 
 export const Widget = () => {
@@ -325,8 +327,11 @@ export const Widget = () => {
 
     window.addEventListener('resize', handleWindowResize, { passive: true });
 
+    const stopSlowDownsTracking = startSlowDownsTracking();
+
     return () => {
       window.removeEventListener('resize', handleWindowResize);
+      stopSlowDownsTracking();
       unsubscribeSignalWidgetViews();
       unsubscribeStoreInspectState();
       unsubscribeSignalWidget();
@@ -365,6 +370,7 @@ export const Widget = () => {
         <ResizeHandle position="right" />
 
         <ToolbarNotification />
+        <RenderLoopBanner />
         <Content />
       </div>
     </>
@@ -0,0 +1,77 @@
+import { useCallback } from 'preact/hooks';
+import { ReactScanInternals } from '~core/index';
+import {
+  type RenderLoop,
+  dismissRenderLoop,
+  resumeAfterRenderLoop,
+  signalRenderLoop,
+} from '~core/render-loop';
+import { Icon } from '~web/components/icon';
+import { useDelayedValue } from '~web/hooks/use-delayed-value';
+import { signalWidget } from '~web/state';
+import { cn } from '~web/utils/helpers';
+
+const getLoopDescription = ({ componentName, stateChanges }: RenderLoop) => {
+  const [change] = stateChanges;
+  if (!change) return `Render loop in ${componentName}`;
+  const hook = change.name === 'state' ? 'state' : `state hook #${change.name}`;
+  return `Render loop in ${componentName}, ${hook} keeps changing`;
+};
+
+export const isRenderLoopBannerVisible = () =>
+  !!signalRenderLoop.value &&
+  !!ReactScanInternals.instrumentation?.isPaused.value;
+
+export const RenderLoopBanner = () => {
+  const renderLoop = signalRenderLoop.value;
+  const isVisible = isRenderLoopBannerVisible();
+  const isMounted = useDelayedValue(isVisible, 0, 200);
+  const isOpen = useDelayedValue(isMounted && isVisible, 100, 100);
+
+  const handleResume = useCallback((e: Event) => {
+    e.stopPropagation();
+    resumeAfterRenderLoop();
+  }, []);
+
+  const handleClose = useCallback((e: Event) => {
+    e.stopPropagation();
+    dismissRenderLoop();
+  }, []);
+
+  const corner = signalWidget.value.corner;
+  const isWidgetTopOfTheScreen = ['top-left', 'top-right'].includes(corner);
+
+  if (!isMounted || !renderLoop) return null;
+
+  return (
+    <div
+      id="react-scan-render-loop-banner"
+      title="The component, the state and its values are logged to the console"
+      className={cn(
+        'react-scan-toolbar-notification',
+        isWidgetTopOfTheScreen ? 'position-top' : 'position-bottom',
+        isOpen && 'is-open',
+      )}
+    >
+      <span className="w-2 h-2 shrink-0 bg-red-500 rounded-full animate-pulse animation-duration-200" />
+      <span className="truncate">
+        {getLoopDescription(renderLoop)}, outlines paused
+      </span>
+      <button
+        type="button"
+        className="ml-auto shrink-0 text-white hover:underline"
+        onClick={handleResume}
+      >
+        Resume
+      </button>
+      <button
+        type="button"
+        title="Dismiss"
+        className="w-4 h-4 shrink-0 flex items-center justify-center text-neutral-300"
+        onClick={handleClose}
+      >
+        <Icon name="icon-close" size={12} />
+      </button>
+    </div>
+  );
+};
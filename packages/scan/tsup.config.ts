@@ -123,6 +123,7 @@ export default defineConfig([
       './src/core/monitor/params/react-router-v6.ts',
       './src/core/monitor/params/remix.ts',
       './src/core/monitor/params/astro/component.ts',
+      './src/core/testing/index.ts',
     ],
     banner: {
       js: banner,
@@ -1,8 +1,11 @@
 import fs from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import { isIP } from 'node:net';
 import path from 'node:path';
 import { transformAsync } from '@babel/core';
 import babelPluginReactDisplayName from 'babel-plugin-add-react-displayname/index.js';
 import * as cheerio from 'cheerio';
+import launchEditor from 'launch-editor';
 import type { Options } from 'react-scan';
 import type { Plugin, ResolvedConfig } from 'vite';
 
@@ -49,6 +52,12 @@ interface ReactScanPluginOptions {
    * @default true
    */
   autoDisplayNames?: boolean;
+
+  /**
+   * Serve the endpoint the inspector uses to open components in your editor
+   * @default true
+   */
+  openInEditor?: boolean;
 }
 
 const PLUGIN_NAME = 'vite-plugin-react-scan';
@@ -74,14 +83,71 @@ const validateOptions = (options: ReactScanPluginOptions) => {
   ) {
     throw new Error('autoDisplayNames must be a boolean');
   }
+
+  if (
+    options.openInEditor !== undefined &&
+    typeof options.openInEditor !== 'boolean'
+  ) {
+    throw new Error('openInEditor must be a boolean');
+  }
 };
 
 const JSX_EXTENSIONS = ['.jsx', '.tsx'] as const;
 const REACT_SCAN_IDENTIFIER = 'react-scan';
+// requested by the react-scan inspector, keep in sync with web/utils/open-in-editor.ts
+const OPEN_IN_EDITOR_PATH = '/__react-scan/open-in-editor';
 
 const isJsxFile = (id: string) =>
   JSX_EXTENSIONS.some((ext) => id.endsWith(ext));
 
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+const getHostname = (host: string) => {
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch {
+    return null;
+  }
+};
+
+// any page can send the request, so only the dev server's own pages are
+// answered. IP addresses can't be rebound to another site, domain names can
+const isSameOriginRequest = (req: IncomingMessage, config: ResolvedConfig) => {
+  const { host, origin } = req.headers;
+  const hostname = host ? getHostname(host) : null;
+  if (!hostname) return false;
+
+  const isKnownHost =
+    LOCAL_HOSTNAMES.includes(hostname) ||
+    hostname.endsWith('.localhost') ||
+    isIP(hostname.replace(/^\[|\]$/g, '')) !== 0 ||
+    hostname === config.server.host;
+  if (!isKnownHost) return false;
+
+  const fetchSite = req.headers['sec-fetch-site'];
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') {
+    return false;
+  }
+
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+};
+
+// the same files the dev server is allowed to serve
+const isServedFile = (filePath: string, config: ResolvedConfig) =>
+  [config.root, ...config.server.fs.allow].some((dir) => {
+    const relativePath = path.relative(dir, filePath);
+    return (
+      relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath)
+    );
+  });
+
 const reactScanPlugin = (options: ReactScanPluginOptions = {}): Plugin => {
   validateOptions(options);
   const {
@@ -89,6 +155,7 @@ const reactScanPlugin = (options: ReactScanPluginOptions = {}): Plugin => {
     scanOptions = DEFAULT_SCAN_OPTIONS,
     debug = false,
     autoDisplayNames = false,
+    openInEditor = true,
   } = options;
 
   let config: ResolvedConfig;
@@ -143,6 +210,50 @@ const reactScanPlugin = (options: ReactScanPluginOptions = {}): Plugin => {
       };
     },
 
+    configureServer(server) {
+      if (!enable || !openInEditor) return;
+
+      server.middlewares.use(OPEN_IN_EDITOR_PATH, (req, res) => {
+        if (req.method !== 'GET' || !isSameOriginRequest(req, config)) {
+          res.statusCode = 403;
+          res.end();
+          return;
+        }
+
+        const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+        const file = params.get('file');
+        if (!file) {
+          res.statusCode = 400;
+          res.end('Missing file');
+          return;
+        }
+
+        // paths from component stacks are relative to the root, _debugSource paths are absolute
+        const filePath = path.resolve(config.root, file);
+        if (!isServedFile(filePath, config)) {
+          res.statusCode = 403;
+          res.end(`Outside of the served files: ${file}`);
+          return;
+        }
+
+        if (!fs.existsSync(filePath)) {
+          res.statusCode = 404;
+          res.end(`File not found: ${file}`);
+          return;
+        }
+
+        const line = Number(params.get('line')) || 1;
+        const column = Number(params.get('column')) || 1;
+        log.debug(`Opening ${filePath}:${line}:${column}`);
+        launchEditor(`${filePath}:${line}:${column}`, undefined, (_, error) => {
+          log.error(`Failed to open ${filePath} in the editor:`, error);
+        });
+
+        res.statusCode = 204;
+        res.end();
+      });
+    },
+
     transform: async (code, id) => {
       if (!autoDisplayNames || !isJsxFile(id)) {
         return null;